@@ -0,0 +1,50 @@
+import { Request, Response, Router } from 'express';
+import { toBoolean } from '@tubular/util';
+import { checkAdminAuthorization, notFoundForEverythingElse } from './common';
+import { getQuotaUsage } from './quota';
+import { atlasDb, atlasDbType } from './atlas_database';
+import { PoolStats } from './connection-monitor';
+
+export const router = Router();
+
+function formatLimit(limit: number): string {
+  return limit > 0 ? limit.toString() : 'unlimited';
+}
+
+function formatPoolStats(stats: PoolStats): string {
+  return `${stats.acquired} acquired, ${stats.idle} idle, ${stats.waiting} waiting, ` +
+    `${stats.total}/${formatLimit(stats.connectionLimit)} connections, ${stats.leakWarnings} leak warnings`;
+}
+
+router.get('/quota', (req: Request, res: Response) => {
+  if (!checkAdminAuthorization(req, res))
+    return;
+
+  const usage = getQuotaUsage();
+
+  if (toBoolean(req.query.pt, false, true)) {
+    res.set('Content-Type', 'text/plain');
+    res.send(usage.map(quota => `${quota.provider}: hour ${quota.hour.used}/${formatLimit(quota.hour.limit)}, ` +
+      `day ${quota.day.used}/${formatLimit(quota.day.limit)}, refused ${quota.refused}`).join('\n') + '\n');
+  }
+  else
+    res.send(usage);
+});
+
+router.get('/db', (req: Request, res: Response) => {
+  if (!checkAdminAuthorization(req, res))
+    return;
+
+  const stats = atlasDb.getStats();
+
+  if (toBoolean(req.query.pt, false, true)) {
+    res.set('Content-Type', 'text/plain');
+    res.send([`${atlasDbType}: ${formatPoolStats(stats)}`].concat((stats.replicas ?? []).map(replica =>
+      `replica ${replica.host}${replica.available ? '' : ' (unavailable)'}: ${formatPoolStats(replica)}`))
+      .join('\n') + '\n');
+  }
+  else
+    res.send({ dbType: atlasDbType, ...stats });
+});
+
+notFoundForEverythingElse(router);
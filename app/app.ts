@@ -9,6 +9,7 @@ import { router as ipToLocationRouter } from './ip-to-location';
 import { router as logRouter } from './log-access';
 import { router as zoneRouter } from './zone-for-location';
 import { router as mapsRouter } from './maps-api';
+import { router as adminRouter } from './admin';
 import { initTimezoneLargeAlt } from '@tubular/time';
 import { svcApiConsole, svcApiLogStream, svcApiSkipFilter } from './svc-api-logger';
 import { formatDateTime } from '@tubular/util';
@@ -49,6 +50,7 @@ app.use('/log/', logRouter);
 app.use('/zoneloc/', zoneRouter);
 app.use('/timeservices/zoneloc/', zoneRouter); // Legacy Tomcat path
 app.use('/maps/', mapsRouter);
+app.use('/admin/', adminRouter);
 app.use(express.static('../public'));
 // Make the flags folder browsable.
 app.use('/assets/resources/flags/', serveIndex(pathJoin(__dirname, '../../public/assets/resources/flags/')));
@@ -1,11 +1,21 @@
 import { Timezone } from '@tubular/time';
-import { eqci } from './common';
+import { eqci, formatVariablePrecision } from './common';
 import { adjustUSCountyName } from './gazetteer';
 
+export interface AlternateName {
+  name: string;
+  lang?: string;
+  misspelling: boolean;
+}
+
 function addParenthetical(s: string): string {
   return ` (${s})`;
 }
 
+function formatAlternateName(alt: AlternateName): string {
+  return alt.name + (alt.lang ? `/${alt.lang}` : '') + (alt.misspelling ? ' (misspelling)' : '');
+}
+
 function compare(a: string, b: string): number {
   if (!a && !b)
     return 0;
@@ -26,6 +36,7 @@ export class AtlasLocation {
   showState: boolean;
   country: string;
   longCountry: string;
+  continent: string;
   flagCode: string;
   latitude: number;
   longitude: number;
@@ -33,10 +44,16 @@ export class AtlasLocation {
   zone: string;
   zip: string;
   rank: number;
+  population?: number;
   placeType: string;
   source: number;
+  alternateNames?: AlternateName[];
   matchedByAlternateName = false;
   matchedBySound = false;
+  matchType?: string;
+  matchDistance?: number;
+  distance?: number;
+  itemNo?: number;
   geonameID?: number;
   useAsUpdate?: boolean;
 
@@ -127,6 +144,31 @@ export class AtlasLocation {
 
   set displayName(s: string) { /* Allow but ignore so this can be set via JSON without causing an error. */ }
 
+  clone(): AtlasLocation {
+    const copy = Object.assign(new AtlasLocation(), this);
+
+    copy.alternateNames = this.alternateNames?.slice();
+
+    return copy;
+  }
+
+  addAlternateName(name: string, lang?: string, misspelling = false): void {
+    name = name?.trim();
+    lang = lang || undefined;
+
+    if (!name || (!lang && eqci(name, this.city)))
+      return;
+
+    this.alternateNames = this.alternateNames ?? [];
+
+    if (!this.alternateNames.find(alt => alt.name === name && alt.lang === lang))
+      this.alternateNames.push({ name, lang, misspelling });
+  }
+
+  mergeAlternateNames(other: AtlasLocation): void {
+    other.alternateNames?.forEach(alt => this.addAlternateName(alt.name, alt.lang, alt.misspelling));
+  }
+
   isCloseMatch(other: AtlasLocation): boolean {
     return eqci(this.city, other.city) &&
            eqci(this.variant, other.variant) &&
@@ -145,9 +187,13 @@ export class AtlasLocation {
     return `${this.displayName} - lat: ${this.latitude}, long: ${this.longitude};` +
       (this.zip ? ` zip: ${this.zip};` : '') +
       ` zone: ${this.zone}; placeType: ${this.placeType}; source: ${this.source}; rank: ${this.rank}` +
+      (this.population ? ` population: ${this.population};` : '') +
       (this.flagCode ? ` flagCode: ${this.flagCode};` : '') +
+      (this.distance != null ? ` distance: ${formatVariablePrecision(this.distance, 1)}km;` : '') +
       (this.matchedByAlternateName ? ' matchedByAlternateName;' : '') +
-      (this.matchedBySound ? ' matchedBySound;' : '');
+      (this.matchedBySound ? ' matchedBySound;' : '') +
+      (this.matchDistance != null ? ` matchDistance: ${this.matchDistance};` : '') +
+      (this.alternateNames?.length ? ` alternateNames: ${this.alternateNames.map(formatAlternateName).join(', ')};` : '');
   }
 
   toJSON(): any {
@@ -157,6 +203,8 @@ export class AtlasLocation {
     copy.displayName = this.displayName;
     copy.zoneOffset = this.getZoneOffset();
     copy.zoneDst = this.getZoneDst();
+    delete copy.matchType;
+    delete copy.itemNo;
     delete copy.geonameID;
     delete copy.useAsUpdate;
 
@@ -166,6 +214,11 @@ export class AtlasLocation {
   compareTo(other: AtlasLocation): number {
     let comparison = (other.rank || 0) - (this.rank || 0);
 
+    if (comparison)
+      return comparison;
+
+    comparison = (other.population || 0) - (this.population || 0);
+
     if (comparison)
       return comparison;
 
@@ -179,6 +232,23 @@ export class AtlasLocation {
     if (comparison)
       return comparison;
 
-    return compare(this.state, other.state);
+    comparison = compare(this.state, other.state);
+
+    if (comparison)
+      return comparison;
+
+    // Further tie-breakers aren't needed for display, but keep the ordering fully deterministic
+    // so that paged results are stable from one request to the next.
+    comparison = compare(this.county, other.county);
+
+    if (comparison)
+      return comparison;
+
+    comparison = (this.latitude || 0) - (other.latitude || 0);
+
+    if (comparison)
+      return comparison;
+
+    return (this.longitude || 0) - (other.longitude || 0);
   }
 }
@@ -0,0 +1,51 @@
+import { expect } from 'chai';
+import { AtlasItem, AtlasRepository, createSqlAtlasRepository, SQLITE_DIALECT } from './atlas-repository';
+import { migrate } from './migrate';
+import { migrations } from './migrations';
+import { SqlitePool } from './sqlite-await-async';
+
+const NASHUA: AtlasItem = {
+  key_name: 'NASHUA', variant: '', name: 'Nashua', admin2: 'Hillsborough', admin1: 'NH', country: 'USA',
+  latitude: 42.7654, longitude: -71.4676, elevation: 0, time_zone: 'America/New_York', postal_code: '', rank: 3,
+  population: 91322, feature_type: 'P.PPL', source: 0
+};
+
+describe('atlas-repository', () => {
+  let atlasDb: AtlasRepository;
+
+  beforeEach(async () => {
+    const pool = new SqlitePool(':memory:', false);
+
+    await migrate(pool, 'sqlite', 'up', migrations[migrations.length - 1].version, () => {});
+    atlasDb = createSqlAtlasRepository(pool, SQLITE_DIALECT);
+    await atlasDb.insertAtlasItem(NASHUA);
+  });
+
+  afterEach(() => atlasDb.end());
+
+  describe('updateAtlasItem', () => {
+    it('should report whether anything changed', async () => {
+      const [{ item_no }] = await atlasDb.findAtlasByKeyName('NASHUA');
+
+      expect(await atlasDb.updateAtlasItem(item_no, { population: 91400 })).to.be.true;
+      expect(await atlasDb.updateAtlasItem(item_no, { population: 91400 })).to.be.false;
+      expect(await atlasDb.updateAtlasItem(item_no, NASHUA)).to.be.true;
+      expect(await atlasDb.updateAtlasItem(item_no, NASHUA)).to.be.false;
+      expect(await atlasDb.updateAtlasItem(item_no, { time_zone: null })).to.be.true;
+      expect(await atlasDb.updateAtlasItem(item_no, { time_zone: null })).to.be.false;
+      expect((await atlasDb.findAtlasItems([item_no]))[0].time_zone).to.be.null;
+    });
+
+    it('should keep the sound of the name up to date', async () => {
+      const [{ item_no }] = await atlasDb.findAtlasByKeyName('NASHUA');
+
+      expect(await atlasDb.updateAtlasItem(item_no, { name: 'Nashville' })).to.be.true;
+      expect((await atlasDb.findAtlasBySound('NASHVILLE')).map(row => row.item_no)).to.deep.equal([item_no]);
+      expect(await atlasDb.updateAtlasItem(item_no, { name: 'Nashville' })).to.be.false;
+    });
+
+    it('should report nothing changed for an unknown item', async () => {
+      expect(await atlasDb.updateAtlasItem(-1, { population: 1 })).to.be.false;
+    });
+  });
+});
@@ -0,0 +1,381 @@
+import { makePlainASCII } from '@tubular/util';
+import { PoolStats } from './connection-monitor';
+
+export type DbType = 'mysql' | 'sqlite';
+
+export interface AtlasItem {
+  key_name: string;
+  variant: string;
+  name: string;
+  admin2: string;
+  admin1: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  elevation: number;
+  time_zone: string;
+  postal_code: string;
+  rank: number;
+  population: number;
+  feature_type: string;
+  source: number;
+  geonames_id?: number;
+}
+
+export interface AtlasRow extends AtlasItem {
+  item_no: number;
+}
+
+export interface AltNameRow {
+  alt_key_name: string;
+  alt_name: string;
+  atlas_key_name: string;
+  specific_item2: number;
+  lang: string;
+  misspelling: string;
+}
+
+export interface SearchLogRow {
+  extended: boolean;
+  hits: number;
+  matches: number;
+  months: number; // age of the entry
+}
+
+export interface ZoneLookupRow {
+  location: string;
+  zones: string; // comma-separated
+}
+
+export interface AtlasQueries {
+  findAtlasItems(itemNos: number[]): Promise<AtlasRow[]>;
+  findAtlasByKeyName(keyName: string, rankedOnly?: boolean): Promise<AtlasRow[]>;
+  findAtlasByNamePrefix(prefix: string, rankedOnly?: boolean): Promise<AtlasRow[]>;
+  findAtlasBySound(name: string, rankedOnly?: boolean): Promise<AtlasRow[]>;
+  findAtlasByKeyPrefixAndLength(prefix: string, minLength: number, maxLength: number, limit: number,
+    rankedOnly?: boolean): Promise<AtlasRow[]>;
+  findAtlasByPostalCode(postalCode: string): Promise<AtlasRow[]>;
+  findAtlasByPostalCodeAndName(postalCode: string, country: string, keyName: string): Promise<AtlasRow[]>;
+  findAtlasByGeoNamesId(geonamesId: number): Promise<AtlasRow[]>;
+  findAtlasInArea(minLatitude: number, maxLatitude: number, minLongitude: number, maxLongitude: number): Promise<AtlasRow[]>;
+  findAtlasSuggestions(prefix: string, limit: number): Promise<AtlasRow[]>;
+  insertAtlasItem(item: AtlasItem): Promise<void>;
+  updateAtlasItem(itemNo: number, item: Partial<AtlasItem>): Promise<boolean>; // true if anything changed
+  deleteAtlasItem(itemNo: number): Promise<void>;
+
+  findAltNamesByKeyName(altKeyName: string): Promise<AltNameRow[]>;
+  findAltNamesByPrefix(prefix: string, langs: string[], limit: number): Promise<AltNameRow[]>;
+  findAltNamesForItems(itemNos: number[], atlasKeyNames: string[], langs?: string[]): Promise<AltNameRow[]>;
+  insertAltName(altName: AltNameRow): Promise<void>;
+
+  getSearchLog(searchString: string): Promise<SearchLogRow>;
+  insertSearchLog(searchString: string, extended: boolean, matches: number): Promise<void>;
+  updateSearchLog(searchString: string, hits: number, extended: boolean): Promise<void>;
+
+  getZoneLookups(): Promise<ZoneLookupRow[]>;
+
+  addLogEntry(warning: boolean, message: string): Promise<void>;
+}
+
+export interface AtlasConnection extends AtlasQueries {
+  release(): void;
+}
+
+// Queries made directly on the repository, and through getConnection() and withTransaction(), go to the primary
+// database. Those made through reader and getReadConnection() may go to a read replica instead, so may not yet see
+// the latest writes.
+export interface AtlasRepository extends AtlasQueries {
+  readonly reader: AtlasQueries;
+  getConnection(): Promise<AtlasConnection>;
+  getReadConnection(): Promise<AtlasConnection>;
+  withTransaction<T>(fn: (connection: AtlasConnection) => Promise<T>): Promise<T>;
+  getStats(): PoolStats;
+  end(): Promise<void>;
+}
+
+// The database drivers in mysql-await-async and sqlite-await-async both fit these.
+export interface SqlConnection {
+  queryResults<T = any>(sql: string, values?: any[]): Promise<T>;
+  beginTransaction(): Promise<void>;
+  commit(): Promise<void>;
+  rollback(): Promise<void>;
+  release(): void;
+}
+
+export interface SqlPool {
+  queryResults<T = any>(sql: string, values?: any[]): Promise<T>;
+  queryReadResults<T = any>(sql: string, values?: any[]): Promise<T>;
+  getConnection(): Promise<SqlConnection>;
+  getReadConnection(): Promise<SqlConnection>;
+  withTransaction<T>(fn: (connection: SqlConnection) => Promise<T>): Promise<T>;
+  setLeakWarningTime(millis: number): void;
+  getStats(): PoolStats;
+  end(): Promise<void>;
+}
+
+// SQL is kept to what MySQL and SQLite have in common, apart from the few differences here.
+export interface SqlDialect {
+  monthsSince(column: string): string;
+  columnNames: string; // query for the "name" of each column of the table given as its one value
+  nullSafeEquals: string; // equality operator for which two nulls are equal
+}
+
+export const MYSQL_DIALECT: SqlDialect = {
+  monthsSince: column => `TIMESTAMPDIFF(MONTH, ${column}, NOW())`,
+  columnNames: 'SELECT column_name AS name FROM information_schema.columns WHERE table_schema = DATABASE() AND table_name = ?',
+  nullSafeEquals: '<=>'
+};
+
+export const SQLITE_DIALECT: SqlDialect = {
+  monthsSince: column => `CAST((julianday('now') - julianday(${column})) / 30.436875 AS INTEGER)`,
+  columnNames: 'SELECT name FROM pragma_table_info(?)',
+  nullSafeEquals: 'IS'
+};
+
+const ATLAS_COLUMNS: (keyof AtlasItem)[] = [
+  'key_name', 'variant', 'name', 'admin2', 'admin1', 'country', 'latitude', 'longitude', 'elevation', 'time_zone',
+  'postal_code', 'rank', 'population', 'feature_type', 'source', 'geonames_id'
+];
+
+function rankCondition(rankedOnly: boolean): string {
+  return rankedOnly ? ' AND rank > 0' : '';
+}
+
+function startsWith(prefix: string): string[] {
+  return [prefix, prefix + '~'];
+}
+
+// Names of columns being set, and their values, with the "sound" column following along with "name". Columns which
+// the table doesn't have (yet), like "population" before migration 3, are left out.
+function atlasAssignments(item: Partial<AtlasItem>, tableColumns: Set<string>): { columns: string[], values: any[] } {
+  const columns: string[] = [];
+  const values: any[] = [];
+
+  ATLAS_COLUMNS.forEach(column => {
+    if (item[column] !== undefined && tableColumns.has(column)) {
+      columns.push(column);
+      values.push(item[column]);
+
+      if (column === 'name') {
+        columns.push('sound');
+        values.push(makePlainASCII(item.name));
+      }
+    }
+  });
+
+  return { columns, values };
+}
+
+function atlasPlaceholder(column: string): string {
+  return column === 'sound' ? 'SOUNDEX(?)' : '?';
+}
+
+// The columns of each table, looked up once and shared by a repository and its connections, so a running server only
+// starts using columns added by a migration once it's restarted.
+class TableColumns {
+  private columns = new Map<string, Promise<Set<string>>>();
+
+  constructor(private dialect: SqlDialect) {}
+
+  get(executor: Pick<SqlConnection, 'queryResults'>, table: string): Promise<Set<string>> {
+    let columns = this.columns.get(table);
+
+    if (!columns) {
+      columns = executor.queryResults<{ name: string }[]>(this.dialect.columnNames, [table])
+        .then(results => new Set(results.map(result => result.name.toLowerCase())));
+      this.columns.set(table, columns);
+      columns.catch(() => this.columns.delete(table));
+    }
+
+    return columns;
+  }
+}
+
+class SqlAtlasQueries implements AtlasQueries {
+  constructor(protected executor: Pick<SqlConnection, 'queryResults'>, protected dialect: SqlDialect,
+              protected tableColumns = new TableColumns(dialect)) {}
+
+  async findAtlasItems(itemNos: number[]): Promise<AtlasRow[]> {
+    if (itemNos.length === 0)
+      return [];
+
+    return this.select('SELECT * FROM atlas2 WHERE item_no IN (?)', [itemNos]);
+  }
+
+  findAtlasByKeyName(keyName: string, rankedOnly = false): Promise<AtlasRow[]> {
+    return this.select('SELECT * FROM atlas2 WHERE key_name = ?' + rankCondition(rankedOnly), [keyName]);
+  }
+
+  findAtlasByNamePrefix(prefix: string, rankedOnly = false): Promise<AtlasRow[]> {
+    return this.select('SELECT * FROM atlas2 WHERE ((key_name >= ? AND key_name < ?) OR (variant >= ? AND variant < ?))' +
+      rankCondition(rankedOnly), [...startsWith(prefix), ...startsWith(prefix)]);
+  }
+
+  findAtlasBySound(name: string, rankedOnly = false): Promise<AtlasRow[]> {
+    return this.select('SELECT * FROM atlas2 WHERE sound = SOUNDEX(?)' + rankCondition(rankedOnly), [name]);
+  }
+
+  findAtlasByKeyPrefixAndLength(prefix: string, minLength: number, maxLength: number, limit: number,
+                                rankedOnly = false): Promise<AtlasRow[]> {
+    return this.select('SELECT * FROM atlas2 WHERE key_name >= ? AND key_name < ? AND CHAR_LENGTH(key_name) BETWEEN ? AND ?' +
+      rankCondition(rankedOnly) + ' ORDER BY rank DESC, key_name LIMIT ?', [...startsWith(prefix), minLength, maxLength, limit]);
+  }
+
+  findAtlasByPostalCode(postalCode: string): Promise<AtlasRow[]> {
+    return this.select('SELECT * FROM atlas2 WHERE postal_code = ?', [postalCode]);
+  }
+
+  findAtlasByPostalCodeAndName(postalCode: string, country: string, keyName: string): Promise<AtlasRow[]> {
+    return this.select('SELECT * FROM atlas2 WHERE postal_code = ? AND country = ? AND key_name = ?', [postalCode, country, keyName]);
+  }
+
+  findAtlasByGeoNamesId(geonamesId: number): Promise<AtlasRow[]> {
+    return this.select('SELECT * FROM atlas2 WHERE geonames_id = ?', [geonamesId]);
+  }
+
+  findAtlasInArea(minLatitude: number, maxLatitude: number, minLongitude: number, maxLongitude: number): Promise<AtlasRow[]> {
+    return this.select('SELECT * FROM atlas2 WHERE latitude >= ? AND latitude <= ? AND longitude >= ? AND longitude <= ?',
+      [minLatitude, maxLatitude, minLongitude, maxLongitude]);
+  }
+
+  findAtlasSuggestions(prefix: string, limit: number): Promise<AtlasRow[]> {
+    return this.select('SELECT * FROM atlas2 WHERE ((key_name >= ? AND key_name < ?) OR (variant >= ? AND variant < ?)) ' +
+      'ORDER BY rank DESC, key_name LIMIT ?', [...startsWith(prefix), ...startsWith(prefix), limit]);
+  }
+
+  async insertAtlasItem(item: AtlasItem): Promise<void> {
+    const { columns, values } = atlasAssignments(item, await this.tableColumns.get(this.executor, 'atlas2'));
+    const placeholders = columns.map(column => atlasPlaceholder(column));
+
+    await this.executor.queryResults(`INSERT INTO atlas2 (${columns.join(', ')}) VALUES (${placeholders.join(', ')})`, values);
+  }
+
+  async updateAtlasItem(itemNo: number, item: Partial<AtlasItem>): Promise<boolean> {
+    const { columns, values } = atlasAssignments(item, await this.tableColumns.get(this.executor, 'atlas2'));
+    const assignments = columns.map(column => `${column} = ${atlasPlaceholder(column)}`);
+    const sameValues = columns.map(column => `${column} ${this.dialect.nullSafeEquals} ${atlasPlaceholder(column)}`);
+
+    if (columns.length === 0)
+      return false;
+
+    // Rows which already hold the new values are left out, as SQLite counts every row matched as changed.
+    const result = await this.executor.queryResults(`UPDATE atlas2 SET ${assignments.join(', ')} WHERE item_no = ? ` +
+      `AND NOT (${sameValues.join(' AND ')})`, [...values, itemNo, ...values]);
+
+    return result?.changedRows > 0;
+  }
+
+  async deleteAtlasItem(itemNo: number): Promise<void> {
+    await this.executor.queryResults('DELETE FROM atlas2 WHERE item_no = ?', [itemNo]);
+  }
+
+  findAltNamesByKeyName(altKeyName: string): Promise<AltNameRow[]> {
+    return this.select('SELECT * FROM atlas_alt_names WHERE alt_key_name = ?', [altKeyName]);
+  }
+
+  // Exact matches come first, then the shortest (closest) names, so that the limit doesn't cut off the best matches.
+  async findAltNamesByPrefix(prefix: string, langs: string[], limit: number): Promise<AltNameRow[]> {
+    if (!(await this.hasLanguageTags()))
+      return [];
+
+    return this.select('SELECT * FROM atlas_alt_names WHERE alt_key_name LIKE ? AND lang IN (?) ' +
+      'ORDER BY CASE WHEN alt_key_name = ? THEN 0 ELSE 1 END, CHAR_LENGTH(alt_key_name), alt_key_name LIMIT ?',
+      [prefix + '%', langs, prefix, limit]);
+  }
+
+  async findAltNamesForItems(itemNos: number[], atlasKeyNames: string[], langs?: string[]): Promise<AltNameRow[]> {
+    if ((itemNos.length === 0 && atlasKeyNames.length === 0) || (langs && !(await this.hasLanguageTags())))
+      return [];
+
+    return this.select('SELECT * FROM atlas_alt_names WHERE ' + (langs ? 'lang IN (?) AND ' : '') +
+      '(specific_item2 IN (?) OR atlas_key_name IN (?))',
+      [...(langs ? [langs] : []), itemNos.length ? itemNos : [-1], atlasKeyNames.length ? atlasKeyNames : ['']]);
+  }
+
+  async insertAltName(altName: AltNameRow): Promise<void> {
+    const { alt_key_name, alt_name, atlas_key_name, specific_item2, lang, misspelling } = altName;
+    const values = [alt_key_name, alt_name, atlas_key_name, specific_item2, lang, misspelling];
+
+    await this.executor.queryResults('INSERT INTO atlas_alt_names (alt_key_name, alt_name, atlas_key_name, specific_item2, ' +
+      'lang, misspelling) VALUES (?, ?, ?, ?, ?, ?)', values);
+  }
+
+  async getSearchLog(searchString: string): Promise<SearchLogRow> {
+    const results = await this.select<SearchLogRow>(`SELECT extended, hits, matches, ${this.dialect.monthsSince('time_stamp')} ` +
+      'AS months FROM atlas_searches2 WHERE search_string = ?', [searchString]);
+
+    return results[0] ?? null;
+  }
+
+  async insertSearchLog(searchString: string, extended: boolean, matches: number): Promise<void> {
+    await this.executor.queryResults('INSERT INTO atlas_searches2 (search_string, extended, hits, matches) VALUES (?, ?, 1, ?)',
+      [searchString, extended, matches]);
+  }
+
+  async updateSearchLog(searchString: string, hits: number, extended: boolean): Promise<void> {
+    await this.executor.queryResults('UPDATE atlas_searches2 SET hits = ?, extended = ? WHERE search_string = ?',
+      [hits, extended, searchString]);
+  }
+
+  getZoneLookups(): Promise<ZoneLookupRow[]> {
+    return this.select('SELECT location, zones FROM zone_lookup');
+  }
+
+  async addLogEntry(warning: boolean, message: string): Promise<void> {
+    await this.executor.queryResults('INSERT INTO atlas_log (warning, message) VALUES (?, ?)', [warning, message]);
+  }
+
+  // Alternate names only have language tags from migration 2 on.
+  private async hasLanguageTags(): Promise<boolean> {
+    return (await this.tableColumns.get(this.executor, 'atlas_alt_names')).has('lang');
+  }
+
+  private async select<T = any>(sql: string, values?: any[]): Promise<T[]> {
+    return (await this.executor.queryResults<T[]>(sql, values)) || [];
+  }
+}
+
+class SqlAtlasConnection extends SqlAtlasQueries implements AtlasConnection {
+  constructor(private connection: SqlConnection, dialect: SqlDialect, tableColumns: TableColumns) {
+    super(connection, dialect, tableColumns);
+  }
+
+  release(): void {
+    this.connection.release();
+  }
+}
+
+class SqlAtlasRepository extends SqlAtlasQueries implements AtlasRepository {
+  readonly reader: AtlasQueries;
+
+  constructor(private pool: SqlPool, dialect: SqlDialect) {
+    super(pool, dialect);
+    this.reader = new SqlAtlasQueries({
+      queryResults: <T>(sql: string, values?: any[]): Promise<T> => pool.queryReadResults<T>(sql, values)
+    }, dialect, this.tableColumns);
+  }
+
+  async getConnection(): Promise<AtlasConnection> {
+    return new SqlAtlasConnection(await this.pool.getConnection(), this.dialect, this.tableColumns);
+  }
+
+  async getReadConnection(): Promise<AtlasConnection> {
+    return new SqlAtlasConnection(await this.pool.getReadConnection(), this.dialect, this.tableColumns);
+  }
+
+  withTransaction<T>(fn: (connection: AtlasConnection) => Promise<T>): Promise<T> {
+    return this.pool.withTransaction(connection => fn(new SqlAtlasConnection(connection, this.dialect, this.tableColumns)));
+  }
+
+  getStats(): PoolStats {
+    return this.pool.getStats();
+  }
+
+  end(): Promise<void> {
+    return this.pool.end();
+  }
+}
+
+export function createSqlAtlasRepository(pool: SqlPool, dialect: SqlDialect): AtlasRepository {
+  return new SqlAtlasRepository(pool, dialect);
+}
@@ -1,7 +1,12 @@
-import { Request, Response, Router } from 'express';
+import { json, Request, Response, Router } from 'express';
 
-import { asyncHandler, MIN_EXTERNAL_SOURCE, notFoundForEverythingElse, formatVariablePrecision } from './common';
-import { doDataBaseSearch, hasSearchBeenDoneRecently, logMessage, logSearchResults, pool, updateAtlasDB } from './atlas_database';
+import {
+  asyncHandler, ConcurrencyLimiter, MIN_EXTERNAL_SOURCE, notFoundForEverythingElse, formatVariablePrecision
+} from './common';
+import {
+  doDataBaseSearch, doLanguageSearch, doReverseSearch, doSuggestionSearch, findAlternateNames, hasSearchBeenDoneRecently,
+  localizeLocationNames, logMessage, logSearchResults, atlasDb, updateAtlasDB
+} from './atlas_database';
 import {
   celestialNames, code2ToCode3, code3ToName, initGazetteer, LocationMap, longStates, ParsedSearchString, parseSearchString,
   roughDistanceBetweenLocationsInKm, states
@@ -9,32 +14,61 @@ import {
 import { SearchResult } from './search-result';
 import { AtlasLocation } from './atlas-location';
 import { MapClass } from './map-class';
-import { GettyMetrics, gettySearch } from './getty-search';
 import { initTimezones } from './timezones';
-import { GeoNamesMetrics, geoNamesSearch } from './geo-names-search';
+import {
+  getDefaultRemoteSources, getRemoteSource, getRemoteSourceResults, getRemoteSources, RemoteSearchResults, RemoteSource,
+  remoteSourcesSearch
+} from './remote-sources';
 import { svcApiConsole } from './svc-api-logger';
-import { PoolConnection } from './mysql-await-async';
-import { toInt, toBoolean, makePlainASCII_UC, processMillis } from '@tubular/util';
+import { DEFAULT_FUZZY_THRESHOLD } from './fuzzy-match';
+import { applyLocationFilter, isLocationFilterActive, LocationFilter, parseLocationFilter } from './location-filter';
+import { AtlasConnection } from './atlas-repository';
+import { SearchExplanation } from './search-explanation';
+import { decodePageCursor, encodePageCursor } from './page-cursor';
+import { toInt, toBoolean, makePlainASCII_UC, processMillis, toNumber } from '@tubular/util';
 
 export const router = Router();
 
-type RemoteMode = 'skip' | 'normal' | 'extend' | 'forced' | 'only' | 'geonames' | 'getty';
+// 'named' is for when the remote parameter names specific remote sources, which are then searched exclusively.
+type RemoteMode = 'skip' | 'normal' | 'extend' | 'forced' | 'only' | 'named';
 
 class LocationArrayMap extends MapClass<string, AtlasLocation[]> { }
 
-interface RemoteSearchResults {
-  geoNamesMatches: LocationMap;
-  geoNamesMetrics: GeoNamesMetrics;
-  geoNamesError: string;
-  gettyMatches: LocationMap;
-  gettyMetrics: GettyMetrics;
-  gettyError: string;
-  noErrors: boolean;
-  matches: number;
+interface AtlasSearchOptions {
+  q: string;
+  version: number;
+  lang: string;
+  remoteMode: RemoteMode;
+  remoteSources: RemoteSource[];
+  client: string;
+  limit: number;
+  limitGiven: boolean;
+  offset: number;
+  cursor: string;
+  fuzzyThreshold: number;
+  filter: LocationFilter;
+  explain: boolean;
+  alternates: boolean;
+  noTrace: boolean;
+}
+
+interface AtlasSuggestion {
+  displayName: string;
+  country: string;
+  flagCode: string;
 }
 
 const DEFAULT_MATCH_LIMIT = 75;
 const MAX_MATCH_LIMIT = 500;
+const DEFAULT_REVERSE_MATCH_LIMIT = 10;
+const DEFAULT_REVERSE_RADIUS = 25; // km
+const MAX_REVERSE_RADIUS = 250; // km
+const DEFAULT_SUGGESTION_LIMIT = 10;
+const MAX_SUGGESTION_LIMIT = 50;
+const MAX_BATCH_SIZE = 250;
+const MAX_BATCH_BODY_SIZE = '1mb';
+const MAX_BATCH_CONCURRENCY = 4;
+const MAX_BATCH_REMOTE_CONCURRENCY = 2;
 const REFRESH_TIME_FOR_INIT_DATA = 86400; // seconds
 const DB_UPDATE = true;
 
@@ -55,37 +89,166 @@ export async function initAtlas(re_init = false): Promise<void> {
 }
 
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
-  const startTime = processMillis();
+  const result = await atlasSearch(getSearchOptions(req.query));
 
-  const q = req.query.q ? req.query.q.toString().trim() : 'Nashua, NH';
-  const version = toInt(req.query.version, 9);
-  // const lang = req.query.lang?.toString().trim().toLowerCase() || '';
-  const callback = req.query.callback;
+  sendSearchResult(res, result, toBoolean(req.query.pt, false, true), req.query.callback);
+}));
+
+router.post('/batch', json({ limit: MAX_BATCH_BODY_SIZE }), asyncHandler(async (req: Request, res: Response) => {
+  const queries: any[] = Array.isArray(req.body) ? req.body : req.body?.queries;
   const plainText = toBoolean(req.query.pt, false, true);
-  const remoteMode = (/skip|normal|extend|forced|only|geonames|getty/i.test((req.query.remote ?? '').toString()) ?
-    req.query.remote.toString().toLowerCase() : 'skip') as RemoteMode;
-  const withoutDB = /only|geonames|getty/i.test(remoteMode);
+
+  if (!Array.isArray(queries)) {
+    res.status(400).send('Request body must be an array of queries');
+    return;
+  }
+  else if (queries.length > MAX_BATCH_SIZE) {
+    res.status(400).send(`Batch size cannot exceed ${MAX_BATCH_SIZE} queries`);
+    return;
+  }
+
+  // Every search in a batch shares the same pool of database connections, but remote sources get
+  // their own tighter limit so that a single batch can't flood GeoNames or Getty with requests.
+  const searchLimiter = new ConcurrencyLimiter(MAX_BATCH_CONCURRENCY);
+  const remoteLimiter = new ConcurrencyLimiter(MAX_BATCH_REMOTE_CONCURRENCY);
+  // Identical queries are only searched once, which also keeps them from racing each other to log the same search.
+  const searches = new Map<string, Promise<SearchResult>>();
+  const results = await Promise.all(queries.map(query => {
+    const params = getBatchQueryParams(query);
+
+    if (!params) {
+      const result = new SearchResult(typeof query?.q === 'string' ? query.q : '');
+
+      result.error = 'Each query must be a non-empty string, or an object with a non-empty string "q"';
+      result.time = 0;
+
+      return result;
+    }
+
+    const key = JSON.stringify(params);
+
+    if (!searches.has(key))
+      searches.set(key, searchLimiter.run(() => batchSearch(getSearchOptions(params), remoteLimiter)));
+
+    return searches.get(key);
+  }));
+
+  if (plainText) {
+    res.set('Content-Type', 'text/plain');
+    res.send(results.map(result => result.toPlainText()).join('\n'));
+  }
+  else
+    res.send(results);
+}));
+
+async function batchSearch(options: AtlasSearchOptions, remoteLimiter: ConcurrencyLimiter): Promise<SearchResult> {
+  try {
+    return await atlasSearch(options, remoteLimiter);
+  }
+  catch (err) {
+    const result = new SearchResult(options.q);
+
+    result.error = err.toString();
+    result.time = 0;
+
+    return result;
+  }
+}
+
+// Unlike a GET request, a batch query with no search string doesn't get the default one.
+function getBatchQueryParams(query: any): Record<string, any> {
+  if (typeof query === 'string')
+    query = { q: query };
+
+  if (query == null || typeof query !== 'object' || Array.isArray(query) || typeof query.q !== 'string' || !query.q.trim())
+    return null;
+
+  return query;
+}
+
+function getSearchOptions(params: Record<string, any>): AtlasSearchOptions {
+  const remote = (params.remote ?? '').toString().trim().toLowerCase();
+  const namedSources = remote.split(',').map((name: string) => getRemoteSource(name.trim()));
+  let remoteMode: RemoteMode = 'skip';
+  let remoteSources = getDefaultRemoteSources();
+
+  if (/^(skip|normal|extend|forced|only)$/.test(remote))
+    remoteMode = remote as RemoteMode;
+  else if (remote && namedSources.every((source: RemoteSource) => source)) {
+    remoteMode = 'named';
+    remoteSources = namedSources;
+  }
+
+  return {
+    q: params.q ? params.q.toString().trim() : 'Nashua, NH',
+    version: toInt(params.version, 9),
+    lang: params.lang?.toString().trim().toLowerCase() || '',
+    remoteMode,
+    remoteSources,
+    client: (params.client ? params.client.toString().toLowerCase() : ''),
+    limit: Math.min(Math.max(toInt(params.limit, DEFAULT_MATCH_LIMIT), 1), MAX_MATCH_LIMIT),
+    limitGiven: params.limit != null,
+    offset: Math.max(toInt(params.offset, 0), 0),
+    cursor: params.cursor?.toString(),
+    fuzzyThreshold: Math.min(Math.max(toNumber(params.fuzzy, DEFAULT_FUZZY_THRESHOLD), 0), 1),
+    filter: parseLocationFilter(params),
+    explain: toBoolean(params.explain, false, true),
+    alternates: toBoolean(params.alternates, false, true),
+    noTrace: toBoolean(params.notrace, false, true) || remoteMode === 'only'
+  };
+}
+
+async function atlasSearch(options: AtlasSearchOptions, remoteLimiter?: ConcurrencyLimiter): Promise<SearchResult> {
+  const startTime = processMillis();
+  const { q, version, lang, remoteMode, client, noTrace } = options;
+  let { limit, offset } = options;
+  const withoutDB = (remoteMode === 'only' || remoteMode === 'named');
   const extend = (remoteMode === 'extend' || remoteMode === 'only' || remoteMode === 'forced');
-  const client = (req.query.client ? req.query.client.toString().toLowerCase() : '');
   const svc = (!client || client === 'sa' || client === 'web');
-  const limit = Math.min(toInt(req.query.limit, DEFAULT_MATCH_LIMIT), MAX_MATCH_LIMIT);
-  const noTrace = toBoolean(req.query.notrace, false, true) || remoteMode === 'only';
   const dbUpdate = DB_UPDATE && !noTrace;
 
   const parsed = parseSearchString(q, version < 3 ? 'loose' : 'strict');
   const result = new SearchResult(q, parsed.normalizedSearch);
+  const explanation = (options.explain ? new SearchExplanation() : undefined);
+
+  if (options.filter.error) {
+    result.error = options.filter.error;
+    result.time = processMillis() - startTime;
+
+    return result;
+  }
+
+  if (options.cursor) {
+    const cursor = decodePageCursor(options.cursor, MAX_MATCH_LIMIT);
+
+    if (!cursor || cursor.s !== parsed.normalizedSearch) {
+      result.error = 'Invalid page cursor';
+      result.time = processMillis() - startTime;
+
+      return result;
+    }
+
+    offset = cursor.o;
+
+    if (!options.limitGiven)
+      limit = cursor.l;
+  }
+
+  // Only as many matches as the requested page needs are collected, plus one more to tell if there are others.
+  // Filtering can leave out any number of matches, however, so filtered searches collect as many as allowed.
+  const collectLimit = (isLocationFilterActive(options.filter) ? MAX_MATCH_LIMIT : Math.min(offset + limit, MAX_MATCH_LIMIT)) + 1;
   let consultRemoteData = false;
   let remoteResults: RemoteSearchResults;
   let dbMatchedOnlyBySound = false;
-  // let langMatches: LocationMap;
+  let langMatches: LocationMap;
   let dbMatches: LocationMap;
   let dbError: string;
   let gotBetterMatchesFromRemoteData = false;
 
   for (let attempt = 0; attempt < 2; ++attempt) {
-    const connection = await pool.getConnection();
+    const connection = await atlasDb.getReadConnection();
 
-    if (/forced|only|geonames|getty/i.test(remoteMode) ||
+    if (remoteMode === 'forced' || withoutDB ||
       (remoteMode !== 'skip' && !(await hasSearchBeenDoneRecently(connection, parsed.normalizedSearch, extend)))) {
       consultRemoteData = true;
     }
@@ -97,7 +260,9 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
       dbMatches = undefined;
     else {
       try {
-        dbMatches = await doDataBaseSearch(connection, parsed, extend, limit + 1, true); // , langMatches.size === 0);
+        langMatches = (lang ? await doLanguageSearch(connection, parsed, lang, collectLimit) : new LocationMap());
+        dbMatches = await doDataBaseSearch(connection, parsed, extend, collectLimit, langMatches.size === 0,
+          options.fuzzyThreshold, langMatches);
         dbMatchedOnlyBySound = true;
 
         for (const location of dbMatches.values) {
@@ -112,21 +277,24 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
       catch (err) {
         dbError = err.toString();
 
-        if (attempt === 0)
+        if (attempt === 0) {
+          connection.release();
           continue;
+        }
       }
     }
 
     connection.release();
 
     if (consultRemoteData) {
-      const doGeonames = remoteMode !== 'getty';
-      const doGetty = remoteMode !== 'geonames';
+      const search = (): Promise<RemoteSearchResults> => remoteSourcesSearch(parsed, options.remoteSources, noTrace);
 
-      remoteResults = await remoteSourcesSearch(parsed, doGeonames, doGetty, noTrace);
+      remoteResults = await (remoteLimiter ? remoteLimiter.run(search) : search());
 
       if (remoteResults.matches > 0 && dbMatchedOnlyBySound) {
         gotBetterMatchesFromRemoteData = true;
+        explanation?.addSource('database', dbMatches.values, 'sound-only',
+          'Database matches were only by sound, and remote sources found matches');
         dbMatches = undefined;
       }
     }
@@ -136,34 +304,75 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 
   const mergedMatches = new LocationArrayMap();
 
-  // if (langMatches)
-  //   copyAndMergeLocations(mergedMatches, langMatches);
+  if (langMatches)
+    copyAndMergeLocations(mergedMatches, langMatches, 'language', explanation);
 
   if (dbMatches)
-    copyAndMergeLocations(mergedMatches, dbMatches);
+    copyAndMergeLocations(mergedMatches, dbMatches, 'database', explanation);
 
-  if (remoteResults) {
-    if (remoteResults.geoNamesMatches)
-      copyAndMergeLocations(mergedMatches, remoteResults.geoNamesMatches);
+  remoteResults?.sources.forEach(sourceResults => {
+    if (sourceResults.matches)
+      copyAndMergeLocations(mergedMatches, sourceResults.matches, sourceResults.source.name, explanation);
+  });
 
-    if (remoteResults.gettyMatches)
-      copyAndMergeLocations(mergedMatches, remoteResults.gettyMatches);
-  }
+  const uniqueMatches = eliminateDuplicatesAndSort(mergedMatches, collectLimit, explanation);
+  // Filtering happens after duplicates are eliminated, and only affects what is returned. Everything
+  // found remains available for updating the database.
+  const filteredMatches = applyLocationFilter(uniqueMatches, options.filter);
 
-  const uniqueMatches = eliminateDuplicatesAndSort(mergedMatches, limit + 1);
+  if (explanation) {
+    const passed = new Set(filteredMatches);
 
-  if (uniqueMatches.length > limit) {
-    uniqueMatches.length = limit;
-    result.limitReached = true;
+    uniqueMatches.filter(location => !passed.has(location))
+      .forEach(location => explanation.setOutcome(location, 'filtered', 'Excluded by search filters'));
   }
 
-  result.matches = uniqueMatches;
+  result.limitReached = (filteredMatches.length > offset + limit);
+
+  if (filteredMatches.length > MAX_MATCH_LIMIT)
+    filteredMatches.length = MAX_MATCH_LIMIT;
+
+  // The total is only known when fewer matches were found than could be collected.
+  if (filteredMatches.length < collectLimit)
+    result.total = filteredMatches.length;
+
+  result.matches = filteredMatches.slice(offset, offset + limit);
+
+  if (offset > 0)
+    result.offset = offset;
+
+  if (offset + limit < filteredMatches.length)
+    result.nextPage = encodePageCursor({ s: parsed.normalizedSearch, o: offset + limit, l: limit });
+
+  result.explanation = explanation;
 
   const { celestial, suggestions } = summarizeResults(result, remoteResults, dbError, extend, version, parsed, svc, client);
 
   if (!dbError)
     await updateDbIfRequired(uniqueMatches, remoteResults, parsed.normalizedSearch, gotBetterMatchesFromRemoteData, extend, dbUpdate && !noTrace);
 
+  // Alternate names are looked up by default name, so this has to come before localization.
+  if (options.alternates) {
+    try {
+      await findAlternateNames(result.matches);
+    }
+    catch (err) {
+      svcApiConsole.error(err.toString());
+    }
+  }
+  else
+    result.matches.forEach(location => delete location.alternateNames);
+
+  // Localize names only after any database updates, so that localized names never end up stored as default names.
+  if (lang) {
+    try {
+      await localizeLocationNames(result.matches, lang);
+    }
+    catch (err) {
+      svcApiConsole.error(err.toString());
+    }
+  }
+
   const log = createCompactLogSummary(result, remoteResults, dbMatches ? dbMatches.size : 0, dbError, startTime,
     client, version, celestial, suggestions);
 
@@ -171,6 +380,87 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
 
   result.time = processMillis() - startTime;
 
+  return result;
+}
+
+router.get('/reverse', asyncHandler(async (req: Request, res: Response) => {
+  const startTime = processMillis();
+  const latitude = toNumber(req.query.lat, NaN);
+  const longitude = toNumber(req.query.lon, NaN);
+  const radius = Math.min(Math.max(toNumber(req.query.radius, DEFAULT_REVERSE_RADIUS), 0), MAX_REVERSE_RADIUS);
+  const limit = Math.min(Math.max(toInt(req.query.limit, DEFAULT_REVERSE_MATCH_LIMIT), 1), MAX_MATCH_LIMIT);
+  const noTrace = toBoolean(req.query.notrace, false, true);
+  const plainText = toBoolean(req.query.pt, false, true);
+  const alternates = toBoolean(req.query.alternates, false, true);
+  const search = `${req.query.lat ?? ''},${req.query.lon ?? ''}`;
+  const result = new SearchResult(search, search);
+
+  if (isNaN(latitude) || isNaN(longitude) || Math.abs(latitude) > 90 || Math.abs(longitude) > 180)
+    result.error = 'Valid lat and lon parameters are required';
+  else {
+    let connection: AtlasConnection;
+
+    result.normalizedSearch = `${formatVariablePrecision(latitude, 4)},${formatVariablePrecision(longitude, 4)}`;
+
+    try {
+      connection = await atlasDb.getReadConnection();
+
+      const matches = (await doReverseSearch(connection, latitude, longitude, radius, limit + 1))
+        .sort((a, b) => reverseSearchScore(a) - reverseSearchScore(b) || a.compareTo(b));
+
+      if (matches.length > limit) {
+        matches.length = limit;
+        result.limitReached = true;
+      }
+
+      if (alternates)
+        await findAlternateNames(matches);
+
+      result.matches = matches;
+    }
+    catch (err) {
+      result.error = err.toString();
+    }
+
+    connection?.release();
+  }
+
+  logMessage(`reverse ${result.normalizedSearch}: ${result.count}${result.limitReached ? '+' : ''}` +
+    (result.error ? `[${result.error}]` : '') +
+    `[${formatVariablePrecision((processMillis() - startTime) / 1000)}s]`, noTrace);
+
+  result.time = processMillis() - startTime;
+  sendSearchResult(res, result, plainText, req.query.callback);
+}));
+
+router.get('/suggest', asyncHandler(async (req: Request, res: Response) => {
+  const q = (req.query.q ?? '').toString().trim();
+  const version = toInt(req.query.version, 9);
+  const limit = Math.min(Math.max(toInt(req.query.limit, DEFAULT_SUGGESTION_LIMIT), 1), MAX_SUGGESTION_LIMIT);
+  const plainText = toBoolean(req.query.pt, false, true);
+  let suggestions: AtlasSuggestion[] = [];
+
+  if (q) {
+    const parsed = parseSearchString(q, version < 3 ? 'loose' : 'strict');
+
+    suggestions = (await doSuggestionSearch(parsed, limit)).map(location => ({
+      displayName: location.displayName,
+      country: location.country,
+      flagCode: location.flagCode
+    }));
+  }
+
+  if (plainText) {
+    res.set('Content-Type', 'text/plain');
+    res.send(suggestions.map(suggestion => suggestion.displayName).join('\n') + '\n');
+  }
+  else if (req.query.callback)
+    res.jsonp(suggestions);
+  else
+    res.send(suggestions);
+}));
+
+function sendSearchResult(res: Response, result: SearchResult, plainText: boolean, callback: any): void {
   if (plainText) {
     res.set('Content-Type', 'text/plain');
     res.send(result.toPlainText());
@@ -179,9 +469,23 @@ router.get('/', asyncHandler(async (req: Request, res: Response) => {
     res.jsonp(result);
   else
     res.send(result);
-}));
+}
+
+// Smaller scores are better. Distance is discounted for higher-ranked places, and for populated
+// places and administrative areas, which are more likely to be what someone means by "where".
+function reverseSearchScore(location: AtlasLocation): number {
+  let score = location.distance / (1 + Math.max(location.rank || 0, 0) / 2);
+
+  if (!MATCH_PPL.test(location.placeType) && !MATCH_ADM.test(location.placeType))
+    score *= 2;
+
+  return score;
+}
+
+function copyAndMergeLocations(destination: LocationArrayMap, source: LocationMap, sourceName?: string,
+                               explanation?: SearchExplanation): void {
+  explanation?.addSource(sourceName, source.values);
 
-function copyAndMergeLocations(destination: LocationArrayMap, source: LocationMap): void {
   source.keys.forEach(key => {
     const location = source.get(key);
     let locations: AtlasLocation[];
@@ -202,12 +506,21 @@ function copyAndMergeLocations(destination: LocationArrayMap, source: LocationMa
 const MATCH_ADM  = /^A\.ADM/i;
 const MATCH_PPL  = /^P\.PPL/i;
 const MATCH_PPLX = /^P\.PPL\w/i;
+// Duplicates eliminated by these rules are the same place as the match favored over them, so their alternate names carry over.
+const SAME_PLACE_RULES = new Set(['same-geonames-id', 'favor-database', 'lower-rank', 'duplicate']);
 
-function eliminateDuplicatesAndSort(mergedMatches: LocationArrayMap, limit: number): AtlasLocation[] {
+function eliminateDuplicatesAndSort(mergedMatches: LocationArrayMap, limit: number, explanation?: SearchExplanation): AtlasLocation[] {
   const keys = mergedMatches.keys.sort();
 
   keys.forEach(key => {
     const locations = mergedMatches.get(key);
+    const eliminate = (index: number, favored: AtlasLocation, rule: string, reason: string): void => {
+      if (SAME_PLACE_RULES.has(rule))
+        favored.mergeAlternateNames(locations[index]);
+
+      explanation?.eliminate(locations[index], favored, rule, reason);
+      locations[index] = undefined;
+    };
 
     for (let i = 0; i < locations.length - 1; ++i) {
       const location1 = locations[i];
@@ -268,24 +581,30 @@ function eliminateDuplicatesAndSort(mergedMatches: LocationArrayMap, limit: numb
         // If locations are close and one location has a questionable time zone, but the other is more
         // certain, use the more certain time zone for both locations.
         if (distance < 10) {
-          if (zone1.endsWith('?') && !zone2.endsWith('?'))
+          if (zone1.endsWith('?') && !zone2.endsWith('?')) {
             location1.zone = zone2;
-          else if (zone2.endsWith('?') && !zone1.endsWith('?'))
+            explanation?.note(location1, `time zone ${zone2} taken from ${location2.displayName}`);
+          }
+          else if (zone2.endsWith('?') && !zone1.endsWith('?')) {
             location2.zone = zone1;
+            explanation?.note(location2, `time zone ${zone1} taken from ${location1.displayName}`);
+          }
         }
 
         // Newer GeoNames data for the same location should replace older.
         if (geonameID1 && geonameID1 === geonameID2) {
           if (source1 > source2) {
-            locations[j] = undefined;
+            eliminate(j, location1, 'same-geonames-id', 'Newer GeoNames data for the same location replaces older');
             location1.rank = Math.max(rank1, rank2);
+            location1.population = (location1.population || location2.population);
             location1.zip = (zip1 || zip2);
             location1.source = source2;
             location1.useAsUpdate = !location1.isCloseMatch(location2);
           }
           else {
-            locations[i] = undefined;
+            eliminate(i, location2, 'same-geonames-id', 'Newer GeoNames data for the same location replaces older');
             location2.rank = Math.max(rank1, rank2);
+            location2.population = (location2.population || location1.population);
             location1.zip = (zip2 || zip1);
             location2.source = source1;
             location2.useAsUpdate = (source2 > source1 && !location2.isCloseMatch(location1));
@@ -295,12 +614,12 @@ function eliminateDuplicatesAndSort(mergedMatches: LocationArrayMap, limit: numb
           }
         }
         else if (distance < 10 && placeType2 === 'T.PK' && placeType1 === 'T.MT') {
-          locations[i] = undefined;
+          eliminate(i, location2, 'peak-over-mountain', 'Peak favored over nearby mountain');
           break;
         }
         // Favor peak (T.PK) place types over mountain (T.MT) place types.
         else if (distance < 10 && placeType1 === 'T.PK' && placeType2 === 'T.MT') {
-          locations[j] = undefined;
+          eliminate(j, location1, 'peak-over-mountain', 'Peak favored over nearby mountain');
         }
         else if (placeType1 !== placeType2) {
           // Do nothing - differing place types of non-city items will be noted.
@@ -310,14 +629,15 @@ function eliminateDuplicatesAndSort(mergedMatches: LocationArrayMap, limit: numb
             svcApiConsole.warn(`Possible detail conflict for same location: ${city1}, ${state1}/${state2}, ${country1}`);
 
           if (rank2 > rank1) {
-            locations[i] = undefined;
+            eliminate(i, location2, 'state-mismatch', `Same name in a different state, lower rank (${rank1} < ${rank2})`);
             break;
           }
           else if (rank1 > rank2 || !state2) {
-            locations[j] = undefined;
+            eliminate(j, location1, 'state-mismatch', rank1 > rank2 ?
+              `Same name in a different state, lower rank (${rank2} < ${rank1})` : 'Same name, no state given');
           }
           else if (!state1) {
-            locations[i] = undefined;
+            eliminate(i, location2, 'state-mismatch', 'Same name, no state given');
             break;
           }
           else {
@@ -330,13 +650,14 @@ function eliminateDuplicatesAndSort(mergedMatches: LocationArrayMap, limit: numb
             svcApiConsole.warn(`Possible detail conflict for same location: ${city1}, ${county1}/${county2}, ${state1}, ${country1}`);
 
           if (rank2 > rank1) {
-            locations[i] = undefined;
+            eliminate(i, location2, 'county-mismatch', `Same name in a different county, lower rank (${rank1} < ${rank2})`);
             break;
           }
           else if (rank1 > rank2 || !county2)
-            locations[j] = undefined;
+            eliminate(j, location1, 'county-mismatch', rank1 > rank2 ?
+              `Same name in a different county, lower rank (${rank2} < ${rank1})` : 'Same name, no county given');
           else if (!county1) {
-            locations[i] = undefined;
+            eliminate(i, location2, 'county-mismatch', 'Same name, no county given');
             break;
           }
           else {
@@ -347,139 +668,87 @@ function eliminateDuplicatesAndSort(mergedMatches: LocationArrayMap, limit: numb
         else if (rank2 > rank1) {
           if (source1 < MIN_EXTERNAL_SOURCE && source2 >= MIN_EXTERNAL_SOURCE) {
             // Favor SVC's database entry, but keep higher rank.
-            locations[j] = undefined;
+            eliminate(j, location1, 'favor-database', 'Database entry favored over remote source, keeping higher rank');
             location1.rank = rank2;
+            location1.population = (location1.population || location2.population);
           }
           else {
-            locations[i] = undefined;
+            eliminate(i, location2, 'lower-rank', `Duplicate with lower rank (${rank1} < ${rank2})`);
             break;
           }
         }
         else if ((zip1 && !zip2) || rank1 > rank2) {
           if (source2 < MIN_EXTERNAL_SOURCE && source1 >= MIN_EXTERNAL_SOURCE) {
             // Favor SVC's database entry, but keep higher rank.
-            locations[i] = undefined;
+            eliminate(i, location2, 'favor-database', 'Database entry favored over remote source, keeping higher rank');
             location2.rank = Math.max(rank1, rank2);
+            location2.population = (location2.population || location1.population);
             location2.zip = (zip1 || zip2);
             break;
           }
           else
-            locations[j] = undefined;
+            eliminate(j, location1, 'lower-rank', rank1 > rank2 ?
+              `Duplicate with lower rank (${rank2} < ${rank1})` : 'Duplicate without postal code');
         }
         else if (source1 < MIN_EXTERNAL_SOURCE && source2 >= MIN_EXTERNAL_SOURCE)
-          locations[j] = undefined;
+          eliminate(j, location1, 'favor-database', 'Database entry favored over remote source');
         else {
-          locations[i] = undefined;
+          eliminate(i, location2, 'duplicate', 'Duplicate of a later match');
           break;
         }
       }
     }
   });
 
-  const uniqueMatches: AtlasLocation[] = [];
-
-  keys.forEach(key => {
-    const locations = mergedMatches.get(key);
-
-    locations.forEach(location => {
-      if (location && uniqueMatches.length < limit)
-        uniqueMatches.push(location);
-    });
-  });
-
-  return uniqueMatches.sort((a, b) => a.compareTo(b));
-}
-
-async function remoteSourcesSearch(parsed: ParsedSearchString, doGeonames: boolean, doGetty: boolean, noTrace: boolean): Promise<RemoteSearchResults> {
-  const results = {} as RemoteSearchResults;
-  const promises: Promise<LocationMap>[] = [];
-  let geoNamesIndex = -1;
-  let gettyIndex = -1;
-  let nextIndex = 0;
-  let noErrors = true;
-  let matches = 0;
-
-  if (doGeonames) {
-    results.geoNamesMetrics = {} as GeoNamesMetrics;
-    geoNamesIndex = nextIndex++;
-    promises.push(geoNamesSearch(parsed.targetCity, parsed.targetState, parsed.postalCode, results.geoNamesMetrics, noTrace));
-  }
-
-  if (doGetty && !parsed.postalCode) {
-    results.gettyMetrics = {} as GettyMetrics;
-    gettyIndex = nextIndex; /* ++ */ // TODO: Put back trailing ++ if another remote source is added.
-    promises.push(gettySearch(parsed.targetCity, parsed.targetState, results.gettyMetrics, noTrace));
-  }
-
-  const locationsOrErrors = await Promise.all(promises.map(promise => promise.catch(err => err)));
-
-  if (geoNamesIndex >= 0) {
-    if (locationsOrErrors[geoNamesIndex] instanceof Error) {
-      results.geoNamesError = (locationsOrErrors[geoNamesIndex] as Error).message;
-      noErrors = false;
-    }
-    else {
-      results.geoNamesMatches = locationsOrErrors[geoNamesIndex];
-      matches += results.geoNamesMatches.size;
-    }
-  }
-
-  if (gettyIndex >= 0) {
-    if (locationsOrErrors[gettyIndex] instanceof Error) {
-      results.gettyError = (locationsOrErrors[gettyIndex] as Error).message;
-      noErrors = false;
-    }
-    else {
-      results.gettyMatches = locationsOrErrors[gettyIndex];
-      matches += results.gettyMatches.size;
-    }
-  }
+  // Sorting comes before the limit is applied, so that the matches kept for a smaller limit are always the
+  // first of those kept for a larger one.
+  const uniqueMatches = keys.flatMap(key => mergedMatches.get(key).filter(location => location))
+    .sort((a, b) => a.compareTo(b));
 
-  results.noErrors = noErrors;
-  results.matches = matches;
+  uniqueMatches.slice(limit).forEach(location =>
+    explanation?.setOutcome(location, 'beyond-limit', `More than ${limit} unique matches`));
 
-  return results;
+  return uniqueMatches.slice(0, limit);
 }
 
 function summarizeResults(result: SearchResult, remoteResults: RemoteSearchResults, dbError: string,
                           extend: boolean, version: number, parsed: ParsedSearchString,
                           svc: boolean, client: string): { celestial: boolean, suggestions: string } {
-  if (remoteResults) {
-    if (remoteResults.geoNamesMetrics && !remoteResults.geoNamesError) {
-      const metrics = remoteResults.geoNamesMetrics;
-      const retrievalTime = formatVariablePrecision(metrics.retrievalTime / 1000);
+  const remoteErrors = (remoteResults?.sources ?? []).filter(sourceResults => sourceResults.error);
 
-      result.appendInfoLine(`GeoName raw matches: ${metrics.rawCount}, filtered matches: ${metrics.matchedCount}, \
-retrieval time: ${retrievalTime}s.`);
-    }
-
-    if (remoteResults.gettyMetrics && !remoteResults.gettyError) {
-      const metrics = remoteResults.gettyMetrics;
-      const totalTime = formatVariablePrecision(metrics.totalTime / 1000);
-      const preliminaryTime = formatVariablePrecision(metrics.preliminaryTime / 1000);
-      const retrievalTime = formatVariablePrecision(metrics.retrievalTime / 1000);
+  remoteResults?.sources.forEach(sourceResults => {
+    const source = sourceResults.source;
 
-      if (metrics.failedSyntax)
-        result.appendInfoLine('Getty failed search syntax: ' + metrics.failedSyntax);
+    if (sourceResults.error) {
+      // Errors are reported below.
+    }
+    else if (sourceResults.metrics.cacheHit)
+      result.appendInfoLine(`${source.title} matches: ${sourceResults.matches.size}, from cache.`);
+    else {
+      if (source.summarize)
+        source.summarize(sourceResults.metrics).forEach(line => result.appendInfoLine(line));
 
-      result.appendInfoLine(`Getty remote data: ${metrics.retrievedCount}\
-${metrics.retrievedCount === metrics.matchedCount ? '' : ' of ' + metrics.matchedCount} \
-item${metrics.matchedCount === 1 ? '' : 's'} retrieved, total time: ${totalTime}s, preliminary time: \
-${preliminaryTime}s, retrieval time: ${retrievalTime}s.`);
+      if (sourceResults.metrics.retries > 0)
+        result.appendInfoLine(`${source.title} retries: ${sourceResults.metrics.retries}.`);
     }
-  }
+  });
 
   // Returning one error will suffice.
   if (dbError)
     result.error = dbError;
   else
-    result.error = remoteResults && (remoteResults.geoNamesError || remoteResults.gettyError);
+    result.error = remoteErrors[0]?.error;
 
-  if (remoteResults) {
-    if (remoteResults.geoNamesError && (!extend || remoteResults.gettyError))
+  if (remoteErrors.length > 0) {
+    const primaryError = remoteErrors.some(sourceResults => sourceResults.source.primary);
+
+    if (primaryError && (!extend || remoteErrors.length === remoteResults.sources.length))
       result.appendWarningLine('Supplementary data temporarily unavailable.');
-    else if (remoteResults.geoNamesError || remoteResults.gettyError)
+    else
       result.appendWarningLine('Some supplementary data temporarily unavailable.');
+
+    remoteErrors.filter(sourceResults => sourceResults.skipped).forEach(sourceResults =>
+      result.appendWarningLine(sourceResults.error + '.'));
   }
 
   let celestial = false;
@@ -498,21 +767,28 @@ ${preliminaryTime}s, retrieval time: ${retrievalTime}s.`);
 async function updateDbIfRequired(uniqueMatches: AtlasLocation[], remoteResults: RemoteSearchResults, normalizedSearch: string,
     gotBetterMatchesFromRemoteData: boolean, extend: boolean, dbUpdate: boolean): Promise<void> {
   if (!remoteResults || remoteResults.noErrors) {
-    let connection: PoolConnection;
+    let connection: AtlasConnection;
 
     try {
-      connection = await pool.getConnection();
+      connection = await atlasDb.getConnection();
+
+      const updateNeeded = (!await logSearchResults(connection, normalizedSearch, extend, uniqueMatches.length, dbUpdate) ||
+                            gotBetterMatchesFromRemoteData) && remoteResults;
 
-      if ((!await logSearchResults(connection, normalizedSearch, extend, uniqueMatches.length, dbUpdate) ||
-           gotBetterMatchesFromRemoteData) && remoteResults)
-        await updateAtlasDB(connection, uniqueMatches, dbUpdate);
+      // The update transaction takes a connection of its own, so this one is released first. Otherwise enough
+      // concurrent updates, each holding one connection while waiting for another, would wait forever.
+      connection.release();
+      connection = undefined;
+
+      if (updateNeeded)
+        await updateAtlasDB(uniqueMatches, dbUpdate);
     }
     catch (err) {
       // If we can't update, no big deal. The user still has their data.
       svcApiConsole.error(err.toString());
     }
 
-    connection.release();
+    connection?.release();
   }
 }
 
@@ -527,19 +803,14 @@ function createCompactLogSummary(result: SearchResult, remoteResults: RemoteSear
   if (remoteResults) {
     log.push('(');
     log.push(dbMatchCount.toString());
-    log.push(';');
 
-    if (remoteResults.geoNamesMatches)
-      log.push(remoteResults.geoNamesMatches.size.toString());
-    else
-      log.push('-');
+    // Every registered source gets a position in the log, whether searched or not, so that columns line up.
+    getRemoteSources().forEach(source => {
+      const matches = getRemoteSourceResults(remoteResults, source.name)?.matches;
 
-    log.push(';');
-
-    if (remoteResults.gettyMatches)
-      log.push(remoteResults.gettyMatches.size.toString());
-    else
-      log.push('-');
+      log.push(';');
+      log.push(matches ? matches.size.toString() : '-');
+    });
 
     log.push(')');
   }
@@ -557,19 +828,10 @@ function createCompactLogSummary(result: SearchResult, remoteResults: RemoteSear
       else
         log.push('-');
 
-      log.push(';');
-
-      if (remoteResults.geoNamesError)
-        log.push(remoteResults.geoNamesError);
-      else
-        log.push('-');
-
-      log.push(';');
-
-      if (remoteResults.gettyError)
-        log.push(remoteResults.gettyError);
-      else
-        log.push('-');
+      getRemoteSources().forEach(source => {
+        log.push(';');
+        log.push(getRemoteSourceResults(remoteResults, source.name)?.error || '-');
+      });
     }
 
     log.push(']');
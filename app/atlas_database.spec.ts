@@ -0,0 +1,70 @@
+import { expect } from 'chai';
+import { doDataBaseSearch, doReverseSearch } from './atlas_database';
+import { AtlasConnection, AtlasItem, AtlasRepository, createSqlAtlasRepository, SQLITE_DIALECT } from './atlas-repository';
+import { parseSearchString } from './gazetteer';
+import { migrate } from './migrate';
+import { migrations } from './migrations';
+import { SqlitePool } from './sqlite-await-async';
+
+// Fails any query made through it.
+const noQueries = new Proxy({}, {
+  get: (_target, method) => (): Promise<never> => Promise.reject(new Error(`Unexpected ${String(method)}()`))
+}) as AtlasConnection;
+
+function place(name: string, latitude: number, longitude: number): AtlasItem {
+  return {
+    key_name: name.toUpperCase(), variant: '', name, admin2: '', admin1: '', country: 'XXX', latitude, longitude,
+    elevation: 0, time_zone: 'UTC', postal_code: '', rank: 1, population: 0, feature_type: 'P.PPL', source: 0
+  };
+}
+
+describe('atlas_database', () => {
+  describe('doDataBaseSearch', () => {
+    it('should leave names in a non-Latin script to the language search', async () => {
+      const matches = await doDataBaseSearch(noQueries, parseSearchString('Москва', 'strict'), false, 10);
+
+      expect(matches.size).to.equal(0);
+    });
+  });
+
+  describe('doReverseSearch', () => {
+    let atlasDb: AtlasRepository;
+    let connection: AtlasConnection;
+
+    async function namesAround(latitude: number, longitude: number, maxDistance: number): Promise<string[]> {
+      return (await doReverseSearch(connection, latitude, longitude, maxDistance, 10)).map(location => location.city).sort();
+    }
+
+    before(async () => {
+      const pool = new SqlitePool(':memory:', false);
+
+      await migrate(pool, 'sqlite', 'up', migrations[migrations.length - 1].version, () => {});
+      atlasDb = createSqlAtlasRepository(pool, SQLITE_DIALECT);
+
+      for (const item of [place('West', -17, 179.8), place('East', -17, -179.9), place('Far', -17, -175),
+                          place('Nordic', 60, 13.5), place('Polar', 89.6, 170)])
+        await atlasDb.insertAtlasItem(item);
+
+      connection = await atlasDb.getConnection();
+    });
+
+    after(async () => {
+      connection.release();
+      await atlasDb.end();
+    });
+
+    it('should find locations on both sides of the antimeridian', async () => {
+      expect(await namesAround(-17, 179.95, 50)).to.deep.equal(['East', 'West']);
+      expect(await namesAround(-17, -179.95, 50)).to.deep.equal(['East', 'West']);
+    });
+
+    it('should cover the full radius east and west, away from the equator', async () => {
+      expect(await namesAround(60, 10, 200)).to.deep.equal(['Nordic']);
+      expect(await namesAround(60, 10, 150)).to.deep.equal([]);
+    });
+
+    it('should cover every longitude close to a pole', async () => {
+      expect(await namesAround(89.5, 0, 150)).to.deep.equal(['Polar']);
+    });
+  });
+});
@@ -1,30 +1,101 @@
-import { Pool, PoolConnection } from './mysql-await-async';
+import { Pool, ReplicatedPool } from './mysql-await-async';
+import { SqlitePool } from './sqlite-await-async';
 import {
-  closeMatchForState, code3ToName, countyStateCleanUp, getFlagCode, LocationMap, makeLocationKey,
-  ParsedSearchString, roughDistanceBetweenLocationsInKm, simplify, closeMatchForCity
+  AltNameRow, AtlasConnection, AtlasItem, AtlasRow, createSqlAtlasRepository, DbType, MYSQL_DIALECT, SqlPool, SQLITE_DIALECT
+} from './atlas-repository';
+import {
+  closeMatchForState, code3ToContinent, code3ToName, countyStateCleanUp, getFlagCode, LocationMap, makeLocationKey,
+  ParsedSearchString, roughDistanceBetweenLocationsInKm, simplify, closeMatchForCity, simplifyAnyScript
 } from './gazetteer';
 import { AtlasLocation } from './atlas-location';
 import { MIN_EXTERNAL_SOURCE } from './common';
 import { svcApiConsole } from './svc-api-logger';
-import { toBoolean, makePlainASCII } from '@tubular/util';
+import { toBoolean, toInt } from '@tubular/util';
+import { asin_deg, cos_deg, sin_deg } from '@tubular/math';
+import { DEFAULT_FUZZY_THRESHOLD, editDistance, maxEditsForThreshold } from './fuzzy-match';
+
+// DB_TYPE is "mysql" (the default) or "sqlite", for which DB_FILE names the database file. Either way, the schema is
+// created and kept up to date by "npm run migrate".
+function getDbType(): DbType {
+  const dbType = (process.env.DB_TYPE || 'mysql').toLowerCase();
+
+  if (dbType !== 'mysql' && dbType !== 'sqlite')
+    throw new Error(`Unknown DB_TYPE "${process.env.DB_TYPE}"`);
+
+  return dbType;
+}
+
+// Connection settings. Writes go to DB_HOST, or failing that skyviewcafe.com if DB_REMOTE is set, otherwise localhost.
+// Reads for searches go to the comma-separated "host[:port]" list DB_REPLICA_HOSTS, if any, all with the same user,
+// password and database name. A replica which can't be reached is skipped for DB_REPLICA_RETRY_TIME, meanwhile
+// reading from the other replicas, or from the primary host when none is left.
+const DB_CONNECTION_LIMIT = toInt(process.env.DB_CONNECTION_LIMIT, 10);
+const DB_CONNECT_TIMEOUT = toInt(process.env.DB_CONNECT_TIMEOUT, 10000); // milliseconds
+const DB_ACQUIRE_TIMEOUT = toInt(process.env.DB_ACQUIRE_TIMEOUT, 10000); // milliseconds
+const DB_QUEUE_LIMIT = toInt(process.env.DB_QUEUE_LIMIT, 0); // 0 for no limit
+const DB_LEAK_WARNING_TIME = toInt(process.env.DB_LEAK_WARNING_TIME, 30000); // milliseconds, 0 for no warnings
+const DB_REPLICA_RETRY_TIME = toInt(process.env.DB_REPLICA_RETRY_TIME, 30); // seconds
+
+function createMySqlPool(host: string, port: number): Pool {
+  const pool = new Pool({
+    host,
+    port,
+    user: process.env.DB_USER || 'skyview',
+    password: process.env.DB_PWD,
+    database: process.env.DB_NAME || 'skyviewcafe',
+    connectionLimit: DB_CONNECTION_LIMIT,
+    connectTimeout: DB_CONNECT_TIMEOUT,
+    acquireTimeout: DB_ACQUIRE_TIMEOUT,
+    queueLimit: DB_QUEUE_LIMIT
+  }, true, DB_LEAK_WARNING_TIME);
+
+  pool.on('connection', connection => {
+    // noinspection JSIgnoredPromiseFromCall
+    connection.query("SET NAMES 'utf8'");
+  });
+
+  return pool;
+}
+
+function createAtlasPool(dbType: DbType): SqlPool {
+  if (dbType === 'sqlite')
+    return new SqlitePool(process.env.DB_FILE || 'atlas.db', true, DB_LEAK_WARNING_TIME);
 
-export const pool = new Pool({
-  host: (toBoolean(process.env.DB_REMOTE) ? 'skyviewcafe.com' : '127.0.0.1'),
-  user: 'skyview',
-  password: process.env.DB_PWD,
-  database: 'skyviewcafe'
-});
+  const port = toInt(process.env.DB_PORT, 3306);
+  const primaryHost = process.env.DB_HOST || (toBoolean(process.env.DB_REMOTE) ? 'skyviewcafe.com' : '127.0.0.1');
+  const primary = createMySqlPool(primaryHost, port);
+  const replicas = (process.env.DB_REPLICA_HOSTS || '').split(',').map(host => host.trim()).filter(host => host)
+    .map(host => {
+      const [name, replicaPort] = host.split(':');
 
-enum MatchType { EXACT_MATCH = 0, EXACT_MATCH_ALT, STARTS_WITH, SOUNDS_LIKE }
+      return createMySqlPool(name, toInt(replicaPort, port));
+    });
+
+  return new ReplicatedPool(primary, replicas, DB_REPLICA_RETRY_TIME * 1000);
+}
+
+export const atlasDbType = getDbType();
+export const atlasPool = createAtlasPool(atlasDbType);
+export const atlasDb = createSqlAtlasRepository(atlasPool, atlasDbType === 'sqlite' ? SQLITE_DIALECT : MYSQL_DIALECT);
+
+// Command-line tools like the importer and migrate hold connections for minutes on purpose, so they don't warn about
+// long-held connections unless DB_LEAK_WARNING_TIME is given.
+export function useCommandLineDefaults(): void {
+  if (process.env.DB_LEAK_WARNING_TIME == null)
+    atlasPool.setLeakWarningTime(0);
+}
+
+enum MatchType { EXACT_MATCH = 0, EXACT_MATCH_ALT, STARTS_WITH, SOUNDS_LIKE, FUZZY_MATCH }
 
 const NO_RESULTS_YET = -1;
 const MAX_MONTHS_BEFORE_REDOING_EXTENDED_SEARCH = 12;
 const ZIP_RANK = 9;
-
-pool.on('connection', connection => {
-  // noinspection JSIgnoredPromiseFromCall
-  connection.query("SET NAMES 'utf8'");
-});
+const REVERSE_SEARCH_SPANS = [0.05, 0.1, 0.25, 0.5, 1.0, 2.0]; // degrees
+const KM_PER_DEGREE = 111.2;
+const MAX_LANGUAGE_ALT_NAMES = 50;
+const FUZZY_PREFIX_LENGTH = 2;
+const MIN_FUZZY_MATCH_LENGTH = 4;
+const MAX_FUZZY_CANDIDATES = 1000;
 
 export function logMessage(message: string, noTrace = false): void {
   svcApiConsole.info(message);
@@ -43,7 +114,7 @@ export function logWarning(message: string, noTrace = false): void {
 function logMessageAux(message: string, asWarning: boolean): void {
   setTimeout(async () => {
     try {
-      await pool.queryResults('INSERT INTO atlas_log (warning, message) VALUES (?, ?)', [asWarning, message]);
+      await atlasDb.addLogEntry(asWarning, message);
     }
     catch (err) {
       console.error('Writing to atlas_log failed.');
@@ -51,25 +122,24 @@ function logMessageAux(message: string, asWarning: boolean): void {
   });
 }
 
-export async function hasSearchBeenDoneRecently(connection: PoolConnection, searchStr: string, extended: boolean): Promise<boolean> {
+export async function hasSearchBeenDoneRecently(connection: AtlasConnection, searchStr: string, extended: boolean): Promise<boolean> {
   return await logSearchResults(connection, searchStr, extended, NO_RESULTS_YET, false);
 }
 
-export async function logSearchResults(connection: PoolConnection, searchStr: string, extended: boolean, matchCount: number, dbUpdate = true): Promise<boolean> {
+export async function logSearchResults(connection: AtlasConnection, searchStr: string, extended: boolean, matchCount: number, dbUpdate = true): Promise<boolean> {
   let dbHits = 0;
   let ageMonths = -1;
   let found = false;
   let wasExtended = false;
   let matches = 0;
 
-  const results = await connection.queryResults('SELECT extended, hits, matches, TIMESTAMPDIFF(MONTH, time_stamp, NOW()) as months FROM atlas_searches2 WHERE search_string = ?',
-    [searchStr]);
+  const result = await connection.getSearchLog(searchStr);
 
-  if (results && results.length > 0) {
-    wasExtended = results[0].extended;
-    dbHits = results[0].hits;
-    matches = results[0].matches;
-    ageMonths = results[0].months;
+  if (result) {
+    wasExtended = !!result.extended;
+    dbHits = result.hits;
+    matches = result.matches;
+    ageMonths = result.months;
 
     if (ageMonths < MAX_MONTHS_BEFORE_REDOING_EXTENDED_SEARCH && (wasExtended || !extended))
       found = true;
@@ -82,65 +152,59 @@ export async function logSearchResults(connection: PoolConnection, searchStr: st
     if (matchCount < matches)
       matchCount = matches;
 
-    let query: string;
-    let values: any[];
-
-    if (!found && ageMonths < 0) {
-      query = 'INSERT INTO atlas_searches2 (search_string, extended, hits, matches) VALUES (?, ?, 1, ?)';
-      values = [searchStr, extended, matchCount];
-    }
-    else {
-      query = 'UPDATE atlas_searches2 SET hits = ?, extended = ? WHERE search_string = ?';
-      values = [++dbHits, extended && dbUpdate, searchStr];
-    }
-
-    await pool.queryResults(query, values);
+    if (!found && ageMonths < 0)
+      await atlasDb.insertSearchLog(searchStr, extended, matchCount);
+    else
+      await atlasDb.updateSearchLog(searchStr, ++dbHits, extended && dbUpdate);
   }
 
   return found;
 }
 
-export async function doDataBaseSearch(connection: PoolConnection, parsed: ParsedSearchString, extendedSearch: boolean,
-                                       maxMatches: number, canMatchBySound = true): Promise<LocationMap> {
+export async function doDataBaseSearch(connection: AtlasConnection, parsed: ParsedSearchString, extendedSearch: boolean,
+                                       maxMatches: number, canMatchBySound = true,
+                                       fuzzyThreshold = DEFAULT_FUZZY_THRESHOLD, langMatches?: LocationMap): Promise<LocationMap> {
   const simplifiedCity = simplify(parsed.targetCity);
-  const examined = new Set<number>();
   const matches = new LocationMap();
 
+  // A name in a non-Latin script simplifies to nothing, which would match every name as a prefix. Such names can
+  // only be found by language.
+  if (!simplifiedCity && !parsed.postalCode)
+    return matches;
+
+  const examined = new Set<number>();
+  // Matches by alternate name are keyed by that name, not by the default name language matches are keyed by, so
+  // items already found by language have to be skipped here to avoid duplicates.
+  const langItemNos = new Set((langMatches?.values ?? []).map(location => location.itemNo));
+
   for (let pass = 0; pass < 2; ++pass) {
-    const condition = (pass === 0 ? ' AND rank > 0' : '');
+    const rankedOnly = (pass === 0);
 
     examined.clear();
 
-    for (let matchType: number = MatchType.EXACT_MATCH; matchType <= MatchType.SOUNDS_LIKE; ++matchType) {
+    for (let matchType: number = MatchType.EXACT_MATCH; matchType <= MatchType.FUZZY_MATCH; ++matchType) {
       let altName: string;
       let rankAdjust = 0;
-      let query: string;
-      let values: any[];
+      let results: AtlasRow[];
 
       switch (matchType) {
         case MatchType.EXACT_MATCH:
-          if (parsed.postalCode) {
-            query = 'SELECT * FROM atlas2 WHERE postal_code = ?';
-            values = [parsed.postalCode];
-          }
+          if (parsed.postalCode)
+            results = await connection.findAtlasByPostalCode(parsed.postalCode);
           else {
             rankAdjust = 1;
-            query = 'SELECT * FROM atlas2 WHERE key_name = ?' + condition;
-            values = [simplifiedCity];
+            results = await connection.findAtlasByKeyName(simplifiedCity, rankedOnly);
           }
           break;
 
         case MatchType.EXACT_MATCH_ALT:
-          query = 'SELECT * FROM atlas_alt_names WHERE alt_key_name = ?';
-          values = [simplifiedCity];
-
           /* eslint-disable no-case-declarations */
-          const altResults = await pool.queryResults(query, values);
+          const altResults = await connection.findAltNamesByKeyName(simplifiedCity);
           let misspelling: string;
           let keyName: string;
           let itemNo = 0;
 
-          if (altResults && altResults.length > 0) {
+          if (altResults.length > 0) {
             misspelling = altResults[0].misspelling;
             keyName = altResults[0].atlas_key_name;
             altName = altResults[0].alt_name;
@@ -153,17 +217,13 @@ export async function doDataBaseSearch(connection: PoolConnection, parsed: Parse
             altName = undefined;
 
           if (itemNo > 0)
-            query = 'SELECT * FROM atlas2 WHERE item_no = ' + itemNo;
-          else {
-            query = 'SELECT * FROM atlas2 WHERE key_name = ?';
-            values = [keyName];
-          }
+            results = await connection.findAtlasItems([itemNo]);
+          else
+            results = await connection.findAtlasByKeyName(keyName);
           break;
 
         case MatchType.STARTS_WITH:
-          query = 'SELECT * FROM atlas2 WHERE ((key_name >= ? AND key_name < ?) ' +
-            'OR (variant >= ? AND variant < ?))' + condition;
-          values = [simplifiedCity, simplifiedCity + '~', simplifiedCity, simplifiedCity + '~'];
+          results = await connection.findAtlasByNamePrefix(simplifiedCity, rankedOnly);
           break;
 
         case MatchType.SOUNDS_LIKE:
@@ -171,35 +231,50 @@ export async function doDataBaseSearch(connection: PoolConnection, parsed: Parse
             continue;
 
           rankAdjust = -1;
-          query = 'SELECT * FROM atlas2 WHERE sound = SOUNDEX(?)' + condition;
-          values = [simplifiedCity];
+          results = await connection.findAtlasBySound(simplifiedCity, rankedOnly);
           break;
-      }
 
-      const results = (await connection.queryResults(query, values)) || [];
+        case MatchType.FUZZY_MATCH:
+          const maxEdits = maxEditsForThreshold(simplifiedCity.length, fuzzyThreshold);
+
+          if (/\d/.test(parsed.targetCity) || !canMatchBySound || !(fuzzyThreshold > 0) ||
+              simplifiedCity.length < MIN_FUZZY_MATCH_LENGTH || maxEdits < 1)
+            continue;
+
+          // Edit distance can't be computed by the database, so candidates are narrowed down to the highest-ranked
+          // names which share a short prefix and have a similar length, then checked one by one below.
+          const prefix = simplifiedCity.substr(0, FUZZY_PREFIX_LENGTH);
+
+          rankAdjust = -1;
+          results = await connection.findAtlasByKeyPrefixAndLength(prefix, simplifiedCity.length - maxEdits,
+            simplifiedCity.length + maxEdits, MAX_FUZZY_CANDIDATES, rankedOnly);
+          break;
+      }
 
       for (const result of results) {
         const itemNo = result.item_no;
 
-        if (examined.has(itemNo))
+        if (examined.has(itemNo) || (matchType === MatchType.EXACT_MATCH_ALT && langItemNos.has(itemNo)))
           continue;
 
+        let matchDistance: number;
+
+        if (matchType === MatchType.SOUNDS_LIKE || matchType === MatchType.FUZZY_MATCH) {
+          matchDistance = Math.min(editDistance(simplifiedCity, result.key_name),
+            result.variant ? editDistance(simplifiedCity, result.variant) : Number.MAX_SAFE_INTEGER);
+
+          if (matchType === MatchType.FUZZY_MATCH &&
+              matchDistance > maxEditsForThreshold(Math.max(simplifiedCity.length, (result.key_name || '').length), fuzzyThreshold))
+            continue;
+        }
+
         examined.add(itemNo);
 
         let city = result.name;
-        const county = result.admin2;
         const state = result.admin1;
         const country = result.country;
-        const longCountry = code3ToName[country];
-        const latitude: number = result.latitude;
-        const longitude: number = result.longitude;
-        const elevation: number = result.elevation;
-        const zone = result.time_zone;
-        const zip = result.postal_code;
         let rank: number = result.rank;
-        const placeType = result.feature_type;
         const source: number = result.source;
-        const geonameID: number = result.geonames_id;
 
         if (!parsed.postalCode && ((source >= MIN_EXTERNAL_SOURCE && !extendedSearch && pass === 0) ||
             !closeMatchForState(parsed.targetState, state, country)))
@@ -227,28 +302,18 @@ export async function doDataBaseSearch(connection: PoolConnection, parsed: Parse
             rank = 0;
         }
 
-        const location = new AtlasLocation();
+        const location = createLocationFromRow(result);
 
         location.city = city;
-        location.county = countyStateCleanUp(county);
-        location.state = countyStateCleanUp(state);
-        location.country = country;
-        location.longCountry = longCountry;
-        location.flagCode = getFlagCode(country, state);
-        location.latitude = latitude;
-        location.longitude = longitude;
-        location.elevation = elevation;
-        location.zone = zone;
-        location.zip = zip;
         location.rank = rank;
-        location.placeType = placeType;
-        location.source = source;
-        location.geonameID = geonameID;
+        location.matchType = MatchType[matchType];
 
         if (matchType === MatchType.EXACT_MATCH_ALT)
           location.matchedByAlternateName = true;
-        else if (matchType === MatchType.SOUNDS_LIKE)
+        else if (matchType === MatchType.SOUNDS_LIKE || matchType === MatchType.FUZZY_MATCH) {
           location.matchedBySound = true;
+          location.matchDistance = matchDistance;
+        }
 
         const key = makeLocationKey(city, state, country, matches);
 
@@ -258,7 +323,8 @@ export async function doDataBaseSearch(connection: PoolConnection, parsed: Parse
           break;
       }
 
-      // Skip SOUNDS_LIKE search step on first pass, or if better matches have already been found. Only one step needed for postal codes.
+      // Skip SOUNDS_LIKE and FUZZY_MATCH search steps on first pass, or if better matches have already been found.
+      // Only one step needed for postal codes.
       if (((pass === 0 || matches.size > 0) && matchType >= MatchType.STARTS_WITH) || parsed.postalCode)
         break;
     }
@@ -270,7 +336,298 @@ export async function doDataBaseSearch(connection: PoolConnection, parsed: Parse
   return matches;
 }
 
-export async function updateAtlasDB(connection: PoolConnection, matchList: AtlasLocation[], dbUpdate: boolean): Promise<void> {
+// A language tag like "de-AT" also matches names tagged with just the primary language, "de".
+function languageTags(lang: string): string[] {
+  const tags = [lang.toLowerCase()];
+  const primary = tags[0].replace(/[-_].*$/, '');
+
+  if (primary !== tags[0])
+    tags.push(primary);
+
+  return tags;
+}
+
+function isMisspelling(misspelling: string): boolean {
+  return misspelling === 'Y' || misspelling === 'y';
+}
+
+export async function doLanguageSearch(connection: AtlasConnection, parsed: ParsedSearchString, lang: string,
+                                       maxMatches: number): Promise<LocationMap> {
+  const matches = new LocationMap();
+  const keyName = simplify(parsed.targetCity) || simplifyAnyScript(parsed.rawCity);
+
+  if (!keyName || parsed.postalCode)
+    return matches;
+
+  const examined = new Set<number>();
+  const altResults = await connection.findAltNamesByPrefix(keyName, languageTags(lang), MAX_LANGUAGE_ALT_NAMES);
+
+  for (const altResult of altResults) {
+    if (isMisspelling(altResult.misspelling))
+      continue;
+
+    let results: AtlasRow[];
+
+    if (altResult.specific_item2 > 0)
+      results = await connection.findAtlasItems([altResult.specific_item2]);
+    else
+      results = await connection.findAtlasByKeyName(altResult.atlas_key_name);
+
+    for (const result of results) {
+      if (examined.has(result.item_no) || !closeMatchForState(parsed.targetState, result.admin1, result.country))
+        continue;
+
+      examined.add(result.item_no);
+
+      // Keep the default name for now so that these matches merge properly with matches found by other
+      // means. Names are localized later, once the final list of matches is known.
+      const location = createLocationFromRow(result);
+
+      if (altResult.alt_key_name === keyName)
+        location.rank = Math.min(location.rank + 1, ZIP_RANK - 1);
+
+      location.matchedByAlternateName = true;
+      location.matchType = 'LANGUAGE_ALT_NAME';
+      matches.set(makeLocationKey(location.city, result.admin1, location.country, matches), location);
+    }
+
+    if (matches.size > maxMatches)
+      break;
+  }
+
+  return matches;
+}
+
+export async function localizeLocationNames(locations: AtlasLocation[], lang: string): Promise<void> {
+  if (locations.length === 0)
+    return;
+
+  const tags = languageTags(lang);
+  const itemNos = locations.map(location => location.itemNo).filter(itemNo => itemNo > 0);
+  const keyNames = Array.from(new Set(locations.map(location => simplify(location.city))));
+  const results = await atlasDb.reader.findAltNamesForItems(itemNos, keyNames, tags);
+
+  for (const location of locations) {
+    const keyName = simplify(location.city);
+    let bestName: string;
+    let bestScore = -1;
+
+    for (const result of results) {
+      if (isMisspelling(result.misspelling))
+        continue;
+
+      let score: number;
+
+      // Names for a specific item beat names for every item with the same key name, and
+      // names for an exact language tag beat names for only the primary language.
+      if (result.specific_item2 > 0 && result.specific_item2 === location.itemNo)
+        score = 2;
+      else if (!(result.specific_item2 > 0) && result.atlas_key_name === keyName)
+        score = 0;
+      else
+        continue;
+
+      if (result.lang === tags[0])
+        ++score;
+
+      if (score > bestScore) {
+        bestName = result.alt_name;
+        bestScore = score;
+      }
+    }
+
+    if (bestName)
+      location.city = bestName;
+  }
+}
+
+export async function findAlternateNames(locations: AtlasLocation[]): Promise<void> {
+  if (locations.length === 0)
+    return;
+
+  const itemNos = locations.map(location => location.itemNo).filter(itemNo => itemNo > 0);
+  const itemKeyNames = new Map<number, string>();
+
+  // Database matches found by alternate name carry that name as their city name, so their own key names are looked up.
+  (await atlasDb.reader.findAtlasItems(itemNos)).forEach(row => itemKeyNames.set(row.item_no, row.key_name));
+
+  const keyNamesFor = (location: AtlasLocation): string[] =>
+    [simplify(location.city), itemKeyNames.get(location.itemNo)].filter(keyName => keyName);
+  const keyNames = Array.from(new Set(([] as string[]).concat(...locations.map(keyNamesFor))));
+  const results: AltNameRow[] = await atlasDb.reader.findAltNamesForItems(itemNos, keyNames);
+
+  for (const location of locations) {
+    const locationKeyNames = keyNamesFor(location);
+
+    for (const result of results) {
+      if (result.specific_item2 > 0 ? result.specific_item2 === location.itemNo : locationKeyNames.includes(result.atlas_key_name))
+        location.addAlternateName(result.alt_name, result.lang, isMisspelling(result.misspelling));
+    }
+  }
+}
+
+export async function doSuggestionSearch(parsed: ParsedSearchString, maxMatches: number): Promise<AtlasLocation[]> {
+  const simplifiedCity = simplify(parsed.targetCity);
+  const matches: AtlasLocation[] = [];
+  const displayNames = new Set<string>();
+
+  if (!simplifiedCity || parsed.postalCode)
+    return matches;
+
+  // Over-fetch a bit so that filtering by state/country and removing duplicate names still leaves enough matches.
+  const results = await atlasDb.reader.findAtlasSuggestions(simplifiedCity, maxMatches * 4);
+
+  for (const result of results) {
+    if (!closeMatchForState(parsed.targetState, result.admin1, result.country))
+      continue;
+
+    const location = createLocationFromRow(result);
+    const displayName = location.displayName;
+
+    if (displayNames.has(displayName))
+      continue;
+
+    displayNames.add(displayName);
+    matches.push(location);
+
+    if (matches.length >= maxMatches)
+      break;
+  }
+
+  return matches;
+}
+
+function createLocationFromRow(result: AtlasRow): AtlasLocation {
+  const location = new AtlasLocation();
+
+  location.city = result.name;
+  location.county = countyStateCleanUp(result.admin2);
+  location.state = countyStateCleanUp(result.admin1);
+  location.country = result.country;
+  location.longCountry = code3ToName[result.country];
+  location.continent = code3ToContinent[result.country];
+  location.flagCode = getFlagCode(result.country, result.admin1);
+  location.latitude = result.latitude;
+  location.longitude = result.longitude;
+  location.elevation = result.elevation;
+  location.zone = result.time_zone;
+  location.zip = result.postal_code;
+  location.rank = result.rank;
+  location.population = (result.population || undefined);
+  location.placeType = result.feature_type;
+  location.source = result.source;
+  location.itemNo = result.item_no;
+  location.geonameID = result.geonames_id;
+
+  return location;
+}
+
+// Finds atlas entries within span degrees of latitude/longitude, splitting the search at the antimeridian if need be.
+async function findAtlasAround(connection: AtlasConnection, latitude: number, longitude: number, span: number): Promise<AtlasRow[]> {
+  const minLatitude = Math.max(latitude - span, -90);
+  const maxLatitude = Math.min(latitude + span, 90);
+
+  // A circle around a point covers a wider range of longitude away from the equator, and every longitude if it
+  // takes in a pole.
+  if (Math.abs(latitude) + span >= 90)
+    return connection.findAtlasInArea(minLatitude, maxLatitude, -180, 180);
+
+  const longSpan = asin_deg(Math.min(sin_deg(span) / cos_deg(latitude), 1));
+  const minLongitude = longitude - longSpan;
+  const maxLongitude = longitude + longSpan;
+
+  if (minLongitude < -180) {
+    return (await connection.findAtlasInArea(minLatitude, maxLatitude, -180, maxLongitude))
+      .concat(await connection.findAtlasInArea(minLatitude, maxLatitude, minLongitude + 360, 180));
+  }
+  else if (maxLongitude > 180) {
+    return (await connection.findAtlasInArea(minLatitude, maxLatitude, minLongitude, 180))
+      .concat(await connection.findAtlasInArea(minLatitude, maxLatitude, -180, maxLongitude - 360));
+  }
+
+  return connection.findAtlasInArea(minLatitude, maxLatitude, minLongitude, maxLongitude);
+}
+
+export async function doReverseSearch(connection: AtlasConnection, latitude: number, longitude: number,
+                                      maxDistance: number, maxMatches: number): Promise<AtlasLocation[]> {
+  const examined = new Set<number>();
+  const matches: AtlasLocation[] = [];
+  // The search widens in steps, up to the full radius.
+  const maxSpan = maxDistance / KM_PER_DEGREE;
+  const spans = REVERSE_SEARCH_SPANS.filter(span => span < maxSpan).concat(maxSpan);
+
+  for (const span of spans) {
+    const results = await findAtlasAround(connection, latitude, longitude, span);
+
+    for (const result of results) {
+      if (examined.has(result.item_no))
+        continue;
+
+      examined.add(result.item_no);
+
+      const location = createLocationFromRow(result);
+
+      location.distance = roughDistanceBetweenLocationsInKm(latitude, longitude, location.latitude, location.longitude);
+
+      if (location.distance <= maxDistance)
+        matches.push(location);
+    }
+
+    if (matches.length >= maxMatches)
+      break;
+  }
+
+  return matches;
+}
+
+export type ImportOutcome = 'inserted' | 'updated' | 'unchanged';
+
+function atlasItemFromLocation(location: AtlasLocation): AtlasItem {
+  return {
+    key_name: simplify(location.city),
+    variant: location.variant ? simplify(location.variant) : '',
+    name: location.city,
+    admin2: location.county || '',
+    admin1: location.state || '',
+    country: location.country || '',
+    latitude: location.latitude,
+    longitude: location.longitude,
+    elevation: location.elevation || 0,
+    time_zone: location.zone,
+    postal_code: location.zip || '',
+    rank: location.rank || 0,
+    population: location.population || 0,
+    feature_type: location.placeType,
+    source: location.source || 0
+  };
+}
+
+// Bulk imports are keyed by GeoNames ID when available, otherwise (for postal code data) by postal code, country and name.
+export async function importAtlasLocation(connection: AtlasConnection, location: AtlasLocation): Promise<ImportOutcome> {
+  const item = atlasItemFromLocation(location);
+  let results: AtlasRow[];
+
+  item.geonames_id = location.geonameID || null;
+
+  if (location.geonameID)
+    results = await connection.findAtlasByGeoNamesId(location.geonameID);
+  else
+    results = await connection.findAtlasByPostalCodeAndName(location.zip, location.country, item.key_name);
+
+  if (results.length > 0)
+    return await connection.updateAtlasItem(results[0].item_no, item) ? 'updated' : 'unchanged';
+
+  await connection.insertAtlasItem(item);
+
+  return 'inserted';
+}
+
+// All changes are made in a single transaction, so that a failure part way through leaves atlas2 as it was.
+export async function updateAtlasDB(matchList: AtlasLocation[], dbUpdate: boolean): Promise<void> {
+  await atlasDb.withTransaction(connection => updateAtlasDBAux(connection, matchList, dbUpdate));
+}
+
+async function updateAtlasDBAux(connection: AtlasConnection, matchList: AtlasLocation[], dbUpdate: boolean): Promise<void> {
   for (const location of matchList) {
     const asUpdate = location.useAsUpdate;
 
@@ -280,33 +637,28 @@ export async function updateAtlasDB(connection: PoolConnection, matchList: Atlas
 
     const city = location.city;
     const keyName = simplify(city);
-    const variant = (location.variant ? simplify(location.variant) : '');
     const country = location.country;
     const state = location.state;
     const county = location.county;
     const geoNamesDuplicates: number[] = [];
-    let query: string;
-    const values: any[] = [];
+    let results: AtlasRow[];
 
-    if (asUpdate) {
-      query = 'SELECT * FROM atlas2 WHERE geonames_id = ?';
-      values[0] = location.geonameID;
-    }
-    else {
-      query = 'SELECT * FROM atlas2 WHERE key_name = ?';
-      values[0] = keyName;
-    }
+    if (asUpdate)
+      results = await connection.findAtlasByGeoNamesId(location.geonameID);
+    else
+      results = await connection.findAtlasByKeyName(keyName);
 
-    const results = await connection.queryResults(query, values);
     let found = false;
     let dbItemNo = -1;
     let dbCounty = null;
     let dbState = null;
+    let dbPopulation = null;
 
-    for (const result of (results || [])) {
+    for (const result of results) {
       dbItemNo = result.item_no;
       dbCounty = result.admin2;
       dbState = result.admin1;
+      dbPopulation = result.population;
 
       if (asUpdate) {
         if (found)
@@ -342,68 +694,29 @@ export async function updateAtlasDB(connection: PoolConnection, matchList: Atlas
     }
 
     if (asUpdate && found) {
-      query = 'UPDATE atlas2 SET key_name = ?, variant = ?, name = ?, admin2 = ?, admin1 = ?, country = ?, ' +
-          'latitude = ?, longitude = ?, elevation = ?, time_zone = ?, postal_code = ?, rank = ?, feature_type = ?, ' +
-          'sound = SOUNDEX(?), source = ? WHERE item_no = ?';
-
-      values.length = 0;
-      values.push(keyName);
-      values.push(variant || '');
-      values.push(city);
-      values.push(county || '');
-      values.push(state || '');
-      values.push(country || '');
-      values.push(location.latitude);
-      values.push(location.longitude);
-      values.push(location.elevation || 0);
-      values.push(location.zone);
-      values.push(location.zip || '');
-      values.push(location.rank || 0);
-      values.push(location.placeType);
-      values.push(makePlainASCII(city));
-      values.push(location.source || 0);
-      values.push(dbItemNo);
-
-      await connection.queryResults(query, values);
+      await connection.updateAtlasItem(dbItemNo, atlasItemFromLocation(location));
 
       for (const itemNo of geoNamesDuplicates) {
-        await connection.queryResults('DELETE FROM atlas2 WHERE item_no = ?', [itemNo]);
+        await connection.deleteAtlasItem(itemNo);
       }
     }
     else if (!found) {
-      query = 'INSERT INTO atlas2 (key_name, variant, name, admin2, admin1, country, ' +
-               'latitude, longitude, elevation, time_zone, postal_code, rank, feature_type, sound, source) VALUES (' +
-               '?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, SOUNDEX(?), ?)';
-      values.length = 0;
-      values.push(keyName);
-      values.push(variant || '');
-      values.push(city);
-      values.push(county || '');
-      values.push(state || '');
-      values.push(country || '');
-      values.push(location.latitude);
-      values.push(location.longitude);
-      values.push(location.elevation || 0);
-      values.push(location.zone);
-      values.push(location.zip || '');
-      values.push(location.rank || 0);
-      values.push(location.placeType);
-      values.push(makePlainASCII(city));
-      values.push(location.source || 0);
-
-      await connection.queryResults(query, values);
+      await connection.insertAtlasItem(atlasItemFromLocation(location));
       await logMessage(`Added new entry for ${city}, ${state}, ${country}, ${location.source}`);
     }
     else {
       if (dbCounty !== county) {
-        await connection.queryResults('UPDATE atlas2 SET admin2 = ? WHERE item_no = ?', [county, dbItemNo]);
+        await connection.updateAtlasItem(dbItemNo, { admin2: county });
         logWarning(`Added DB admin2 value for ${city}, ${state}, ${country}: ${county}`, false);
       }
 
       if (!dbState && state) {
-        await connection.queryResults('UPDATE atlas2 SET admin1 = ? WHERE item_no = ?', [state, dbItemNo]);
+        await connection.updateAtlasItem(dbItemNo, { admin1: state });
         logWarning(`Added DB admin1 value for ${city}, ${country}: ${county}`, false);
       }
+
+      if (!dbPopulation && location.population)
+        await connection.updateAtlasItem(dbItemNo, { population: location.population });
     }
   }
 }
@@ -0,0 +1,129 @@
+import { expect } from 'chai';
+import { CircuitBreaker, CircuitOpenError, retryWithBackoff } from './circuit-breaker';
+import { processMillis } from '@tubular/util';
+
+const RESET_TIME = 30;
+
+function delay(millis: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, millis));
+}
+
+function fail(message = 'Error 503'): Promise<never> {
+  return Promise.reject(new Error(message));
+}
+
+async function errorFrom(promise: Promise<any>): Promise<any> {
+  try {
+    await promise;
+  }
+  catch (err) {
+    return err;
+  }
+
+  return undefined;
+}
+
+describe('circuit-breaker', () => {
+  describe('CircuitBreaker', () => {
+    it('should open after the threshold of consecutive failures, then fail fast', async () => {
+      const breaker = new CircuitBreaker('Test', 3, RESET_TIME);
+      let calls = 0;
+      const failing = (): Promise<never> => { ++calls; return fail(); };
+
+      for (let i = 0; i < 2; ++i)
+        await errorFrom(breaker.run(failing));
+
+      expect(breaker.state).to.equal('closed');
+      await errorFrom(breaker.run(failing));
+      expect(breaker.state).to.equal('open');
+      expect(await errorFrom(breaker.run(failing))).to.be.instanceOf(CircuitOpenError);
+      expect(calls).to.equal(3);
+    });
+
+    it('should reset the count of failures after a success', async () => {
+      const breaker = new CircuitBreaker('Test', 2, RESET_TIME);
+
+      await errorFrom(breaker.run(fail));
+      await breaker.run(() => Promise.resolve(1));
+      await errorFrom(breaker.run(fail));
+      expect(breaker.state).to.equal('closed');
+    });
+
+    it('should let a single probe through once the reset time has passed, closing if it succeeds', async () => {
+      const breaker = new CircuitBreaker('Test', 1, RESET_TIME);
+      let finishProbe: (value: string) => void;
+
+      await errorFrom(breaker.run(fail));
+      await delay(RESET_TIME + 10);
+
+      const probe = breaker.run(() => new Promise<string>(resolve => finishProbe = resolve));
+
+      expect(breaker.state).to.equal('half-open');
+      expect(await errorFrom(breaker.run(() => Promise.resolve('second')))).to.be.instanceOf(CircuitOpenError);
+      finishProbe('probe');
+      expect(await probe).to.equal('probe');
+      expect(breaker.state).to.equal('closed');
+      expect(await breaker.run(() => Promise.resolve('after'))).to.equal('after');
+    });
+
+    it('should re-open if the probe fails', async () => {
+      const breaker = new CircuitBreaker('Test', 1, RESET_TIME);
+
+      await errorFrom(breaker.run(fail));
+      await delay(RESET_TIME + 10);
+      await errorFrom(breaker.run(fail));
+      expect(breaker.state).to.equal('open');
+      expect(await errorFrom(breaker.run(() => Promise.resolve(1)))).to.be.instanceOf(CircuitOpenError);
+    });
+
+    it('should not let calls which were under way when the circuit opened end the probe', async () => {
+      const breaker = new CircuitBreaker('Test', 1, RESET_TIME);
+      let failEarlyCall: (err: any) => void;
+      const earlyCall = errorFrom(breaker.run(() => new Promise<never>((_resolve, reject) => failEarlyCall = reject)));
+
+      await errorFrom(breaker.run(fail));
+      await delay(RESET_TIME + 10);
+
+      const probe = breaker.run(() => delay(RESET_TIME * 5).then(() => 'probe'));
+
+      failEarlyCall(new Error('Error 503'));
+      await earlyCall;
+      await delay(RESET_TIME + 10);
+      expect(await errorFrom(breaker.run(() => Promise.resolve('second')))).to.be.instanceOf(CircuitOpenError);
+      expect(await probe).to.equal('probe');
+    });
+  });
+
+  describe('retryWithBackoff', () => {
+    it('should retry transient errors, up to the given number of retries', async () => {
+      let calls = 0;
+      const waits: number[] = [];
+      const err = await errorFrom(retryWithBackoff(() => { ++calls; return fail(); }, 2, 1, (_err, wait) => waits.push(wait)));
+
+      expect(err.message).to.equal('Error 503');
+      expect(calls).to.equal(3);
+      expect(waits).to.deep.equal([1, 2]);
+    });
+
+    it('should return the first success', async () => {
+      let calls = 0;
+
+      expect(await retryWithBackoff(() => ++calls < 2 ? fail('ECONNRESET') : Promise.resolve('done'), 3, 1)).to.equal('done');
+      expect(calls).to.equal(2);
+    });
+
+    it('should not retry other errors', async () => {
+      let calls = 0;
+
+      await errorFrom(retryWithBackoff(() => { ++calls; return fail('Error 404'); }, 3, 1));
+      expect(calls).to.equal(1);
+    });
+
+    it('should not start a retry past the deadline', async () => {
+      let calls = 0;
+
+      await errorFrom(retryWithBackoff(() => { ++calls; return fail(); }, 5, 20, undefined, processMillis() + 50));
+      expect(calls).to.equal(2);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { PromiseTimeoutError } from './common';
+import { svcApiConsole } from './svc-api-logger';
+import { processMillis } from '@tubular/util';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export class CircuitOpenError extends Error {}
+
+// Server errors, rate limiting, and dropped or refused connections are worth another try. Timeouts are not, being
+// slow enough already, and neither are errors in the content of a response.
+export function isTransientError(err: any): boolean {
+  if (err instanceof PromiseTimeoutError)
+    return false;
+
+  return /\b(Error 5\d\d|Error 429)\b|ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|EPIPE|socket hang up/i
+    .test(err?.message ?? err?.toString() ?? '');
+}
+
+function delay(millis: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, millis));
+}
+
+// No retry is started, after waiting, at or past the deadline (a processMillis() time).
+export async function retryWithBackoff<T>(task: () => Promise<T>, retries: number, baseDelay: number,
+                                          onRetry?: (err: any, wait: number) => void, deadline = Infinity): Promise<T> {
+  for (let attempt = 0; ; ++attempt) {
+    try {
+      return await task();
+    }
+    catch (err) {
+      const wait = baseDelay * 2 ** attempt;
+
+      if (attempt >= retries || !isTransientError(err) || processMillis() + wait >= deadline)
+        throw err;
+
+      onRetry?.(err, wait);
+      await delay(wait);
+    }
+  }
+}
+
+// After failureThreshold consecutive failures the circuit opens, and calls fail immediately. Once resetTime has passed,
+// a single call is let through as a probe (half-open), which closes the circuit if it succeeds, or re-opens it if not.
+export class CircuitBreaker {
+  private _state: CircuitState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private probing = false;
+
+  constructor(private name: string, private failureThreshold: number, private resetTime: number) {}
+
+  get state(): CircuitState {
+    return this._state;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    let isProbe = false;
+
+    if (this._state === 'open') {
+      if (processMillis() < this.openedAt + this.resetTime)
+        throw new CircuitOpenError(`${this.name} temporarily skipped after repeated failures`);
+
+      this.setState('half-open');
+    }
+
+    if (this._state === 'half-open') {
+      if (this.probing)
+        throw new CircuitOpenError(`${this.name} temporarily skipped while checking for recovery`);
+
+      this.probing = isProbe = true;
+    }
+
+    try {
+      const result = await task();
+
+      this.failures = 0;
+      this.setState('closed');
+
+      return result;
+    }
+    catch (err) {
+      ++this.failures;
+
+      if (this._state === 'half-open' || this.failures >= this.failureThreshold) {
+        this.openedAt = processMillis();
+        this.setState('open');
+      }
+
+      throw err;
+    }
+    finally {
+      // Calls already under way when the circuit opened mustn't clear the flag for the probe.
+      if (isProbe)
+        this.probing = false;
+    }
+  }
+
+  private setState(state: CircuitState): void {
+    if (this._state === state)
+      return;
+
+    this._state = state;
+
+    if (state === 'open')
+      svcApiConsole.warn(`${this.name} circuit open after ${this.failures} consecutive failure${this.failures === 1 ? '' : 's'}`);
+    else if (state === 'half-open')
+      svcApiConsole.info(`${this.name} circuit half-open, probing for recovery`);
+    else
+      svcApiConsole.info(`${this.name} circuit closed, service recovered`);
+  }
+}
@@ -0,0 +1,59 @@
+import { expect } from 'chai';
+import { ExpiringCache } from './common';
+
+function delay(millis: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, millis));
+}
+
+describe('common', () => {
+  describe('ExpiringCache', () => {
+    it('should return what was stored', () => {
+      const cache = new ExpiringCache<number>(3, 60000);
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.set('a', 3);
+      expect(cache.get('a')).to.equal(3);
+      expect(cache.get('b')).to.equal(2);
+      expect(cache.get('c')).to.be.undefined;
+      expect(cache.size).to.equal(2);
+    });
+
+    it('should drop the least recently used entries when full', () => {
+      const cache = new ExpiringCache<number>(3, 60000);
+
+      cache.set('a', 1);
+      cache.set('b', 2);
+      cache.set('c', 3);
+      cache.get('a');
+      cache.set('d', 4);
+      expect(cache.size).to.equal(3);
+      expect(cache.get('b')).to.be.undefined;
+      expect(cache.get('a')).to.equal(1);
+      cache.set('e', 5);
+      expect(cache.get('c')).to.be.undefined;
+      expect(cache.get('d')).to.equal(4);
+      expect(cache.get('e')).to.equal(5);
+    });
+
+    it('should drop entries once they expire', async () => {
+      const cache = new ExpiringCache<number>(3, 100);
+
+      cache.set('a', 1);
+      await delay(60);
+      cache.set('b', 2);
+      await delay(60);
+      expect(cache.get('a')).to.be.undefined;
+      expect(cache.get('b')).to.equal(2);
+      expect(cache.size).to.equal(1);
+    });
+
+    it('should store nothing when its size is zero', () => {
+      const cache = new ExpiringCache<number>(0, 60000);
+
+      cache.set('a', 1);
+      expect(cache.get('a')).to.be.undefined;
+      expect(cache.size).to.equal(0);
+    });
+  });
+});
@@ -1,11 +1,14 @@
 import { NextFunction, Request, Response, Router } from 'express';
+import auth from 'basic-auth';
 import { isNil } from 'lodash';
 import { createReadStream } from 'fs';
+import { processMillis } from '@tubular/util';
 
 export const MIN_EXTERNAL_SOURCE = 100;
 export const SOURCE_GEONAMES_POSTAL_UPDATE  = 101;
 export const SOURCE_GEONAMES_GENERAL_UPDATE = 103;
 export const SOURCE_GETTY_UPDATE = 104;
+export const SOURCE_NOMINATIM_UPDATE = 105;
 
 export function notFound(res: Response): void {
   res.status(403).send('Not found');
@@ -20,6 +23,19 @@ export function formatVariablePrecision(value: number, maxDecimals = 3): string
   return result;
 }
 
+// Sends a 401 response, and returns false, if the request doesn't carry admin credentials.
+export function checkAdminAuthorization(req: Request, res: Response): boolean {
+  const user = auth(req);
+
+  if (!user || !process.env.DB_PWD || user.name !== 'admin' || user.pass !== process.env.DB_PWD) {
+    res.set('WWW-Authenticate', 'Basic realm="skyviewcafe.com"');
+    res.status(401).send('Not authorized');
+    return false;
+  }
+
+  return true;
+}
+
 export function notFoundForEverythingElse(router: Router): void {
   router.get('*', (req: Request, res: Response) => notFound(res));
 }
@@ -44,6 +60,72 @@ export function timedPromise<T>(promise: Promise<T>, maxTime: number, errorRespo
   return Promise.race([promise, timer]);
 }
 
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private maxConcurrent: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.active < this.maxConcurrent)
+      ++this.active;
+    else
+      await new Promise<void>(resolve => this.waiting.push(resolve));
+
+    try {
+      return await task();
+    }
+    finally {
+      const next = this.waiting.shift();
+
+      // Hand this task's slot directly to the next waiting task, if any.
+      if (next)
+        next();
+      else
+        --this.active;
+    }
+  }
+}
+
+// Least-recently-used entries are dropped first when the cache is full. Entries also expire after the given time.
+export class ExpiringCache<T> {
+  private entries = new Map<string, { value: T, expiration: number }>();
+
+  constructor(private maxSize: number, private maxAge: number) {}
+
+  get(key: string): T {
+    const entry = this.entries.get(key);
+
+    if (!entry)
+      return undefined;
+
+    this.entries.delete(key);
+
+    if (entry.expiration < processMillis())
+      return undefined;
+
+    this.entries.set(key, entry);
+
+    return entry.value;
+  }
+
+  set(key: string, value: T): void {
+    if (this.maxSize <= 0)
+      return;
+
+    this.entries.delete(key);
+
+    while (this.entries.size >= this.maxSize)
+      this.entries.delete(this.entries.keys().next().value);
+
+    this.entries.set(key, { value, expiration: processMillis() + this.maxAge });
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
 export async function getFileContents(path: string, encoding?: string): Promise<string> {
   if (!encoding)
     encoding = 'utf8';
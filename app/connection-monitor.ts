@@ -0,0 +1,73 @@
+interface ConnectionCounts {
+  connectionLimit: number;
+  total: number;
+  acquired: number;
+  idle: number;
+  waiting: number;
+  leakWarnings: number;
+}
+
+export interface ReplicaStats extends ConnectionCounts {
+  host: string;
+  available: boolean;
+}
+
+export interface PoolStats extends ConnectionCounts {
+  replicas?: ReplicaStats[];
+}
+
+const CALL_SITE_FRAMES = 6;
+
+// Keeps count of connections handed out by a pool, and warns about any held longer than leakWarningTime milliseconds
+// (0 for no warnings), naming the code which acquired them.
+export class ConnectionMonitor {
+  private _acquired = 0;
+  private _leakWarnings = 0;
+
+  constructor(private dbName: string, public leakWarningTime = 0) {}
+
+  get acquired(): number { return this._acquired; }
+  get leakWarnings(): number { return this._leakWarnings; }
+
+  // Must be called synchronously by a pool's getConnection(), so that the stack trace leads back to its caller.
+  // Returns undefined when there's no need for it.
+  getCallSite(): string {
+    if (this.leakWarningTime <= 0)
+      return undefined;
+
+    const frames = (new Error().stack ?? '').split('\n').filter(line => /^\s*at /.test(line)).map(line => line.trim());
+
+    // Skip this method, and the getConnection() calling it.
+    return frames.slice(2, 2 + CALL_SITE_FRAMES).join('\n    ');
+  }
+
+  // Returns the function to call when the connection is released. Calls after the first are ignored.
+  acquire(callSite?: string): () => void {
+    const start = Date.now();
+    let timer: any;
+    let released = false;
+
+    ++this._acquired;
+
+    if (this.leakWarningTime > 0) {
+      timer = setTimeout(() => {
+        ++this._leakWarnings;
+        console.warn(`Database "${this.dbName}" connection held for more than ${this.leakWarningTime} ms, acquired at:` +
+          `\n    ${callSite || '(unknown)'}`);
+      }, this.leakWarningTime);
+      timer.unref?.();
+    }
+
+    return (): void => {
+      if (released)
+        return;
+
+      released = true;
+      --this._acquired;
+      clearTimeout(timer);
+
+      if (this.leakWarningTime > 0 && Date.now() - start > this.leakWarningTime)
+        console.warn(`Database "${this.dbName}" connection released after ${Date.now() - start} ms`);
+    };
+  }
+}
@@ -0,0 +1,47 @@
+import { expect } from 'chai';
+import { editDistance, maxEditsForThreshold, similarity } from './fuzzy-match';
+
+describe('fuzzy-match', () => {
+  it('should compute edit distances', () => {
+    expect(editDistance('NASHUA', 'NASHUA')).to.equal(0);
+    expect(editDistance('NASHUA', 'NASHVA')).to.equal(1);
+    expect(editDistance('NASHUA', 'NASHUAS')).to.equal(1);
+    expect(editDistance('NASHUA', 'NASUA')).to.equal(1);
+    expect(editDistance('KITTEN', 'SITTING')).to.equal(3);
+  });
+
+  it('should count a transposition of adjacent characters as one edit', () => {
+    expect(editDistance('NASHAU', 'NASHUA')).to.equal(1);
+    expect(editDistance('AB', 'BA')).to.equal(1);
+  });
+
+  it('should handle empty and missing strings', () => {
+    expect(editDistance('', '')).to.equal(0);
+    expect(editDistance('', 'ABC')).to.equal(3);
+    expect(editDistance('ABC', '')).to.equal(3);
+    expect(editDistance(null, 'AB')).to.equal(2);
+    expect(editDistance('AB', undefined)).to.equal(2);
+  });
+
+  it('should compute similarity', () => {
+    expect(similarity('NASHUA', 'NASHUA')).to.equal(1);
+    expect(similarity('', '')).to.equal(1);
+    expect(similarity('ABCD', 'WXYZ')).to.equal(0);
+    expect(similarity('NASHUA', 'NASHVA')).to.be.closeTo(5 / 6, 1E-9);
+  });
+
+  it('should find the most edits which meet a similarity threshold', () => {
+    expect(maxEditsForThreshold(4, 0.75)).to.equal(1);
+    expect(maxEditsForThreshold(8, 0.75)).to.equal(2);
+    expect(maxEditsForThreshold(7, 0.75)).to.equal(1);
+    expect(maxEditsForThreshold(10, 0.7)).to.equal(3);
+    expect(maxEditsForThreshold(6, 1)).to.equal(0);
+
+    for (let length = 1; length <= 20; ++length) {
+      const edits = maxEditsForThreshold(length, 0.75);
+
+      expect(1 - edits / length).to.be.at.least(0.75 - 1E-9);
+      expect(1 - (edits + 1) / length).to.be.below(0.75);
+    }
+  });
+});
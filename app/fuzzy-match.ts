@@ -0,0 +1,45 @@
+import { toNumber } from '@tubular/util';
+
+export const DEFAULT_FUZZY_THRESHOLD = toNumber(process.env.FUZZY_MATCH_THRESHOLD, 0.75);
+
+// Optimal string alignment distance: Levenshtein distance, except that transposing two adjacent
+// characters ("Nashau" for "Nashua") counts as a single edit rather than two.
+export function editDistance(a: string, b: string): number {
+  if (!a)
+    return b ? b.length : 0;
+  else if (!b)
+    return a.length;
+
+  let prev2: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; ++i) {
+    const curr = [i];
+
+    for (let j = 1; j <= b.length; ++j) {
+      const cost = (a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1);
+
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+
+      if (i > 1 && j > 1 && a.charAt(i - 1) === b.charAt(j - 2) && a.charAt(i - 2) === b.charAt(j - 1))
+        curr[j] = Math.min(curr[j], prev2[j - 2] + 1);
+    }
+
+    prev2 = prev;
+    prev = curr;
+  }
+
+  return prev[b.length];
+}
+
+// 1.0 for identical strings, down to 0.0 for strings with nothing in common.
+export function similarity(a: string, b: string): number {
+  const maxLength = Math.max(a?.length ?? 0, b?.length ?? 0);
+
+  return maxLength === 0 ? 1 : 1 - editDistance(a, b) / maxLength;
+}
+
+// The largest number of edits which can still meet the given similarity threshold for a string of the given length.
+export function maxEditsForThreshold(length: number, threshold: number): number {
+  return Math.floor(length * (1 - threshold) + 1E-9);
+}
@@ -13,6 +13,7 @@ import { requestText } from 'by-request';
 export interface ParsedSearchString {
   postalCode: string;
   targetCity: string;
+  rawCity: string;
   targetState: string;
   actualSearch: string;
   normalizedSearch: string;
@@ -50,6 +51,17 @@ export const nameToCode3: Record<string, string> = {};
 export const code2ToCode3: Record<string, string> = {};
 export const code3ToCode2: Record<string, string> = {};
 export const new3ToOld2: Record<string, string> = {};
+export const code3ToContinent: Record<string, string> = {};
+
+export const continentNames: Record<string, string> = {
+  AF: 'Africa',
+  AN: 'Antarctica',
+  AS: 'Asia',
+  EU: 'Europe',
+  NA: 'North America',
+  OC: 'Oceania',
+  SA: 'South America'
+};
 
 export const usCounties = new Set<string>();
 export const celestialNames = new Set<string>();
@@ -184,6 +196,14 @@ export async function initGazetteer(): Promise<void> {
       }
     });
 
+    lines = (await getFileContents('app/data/country_continents.txt', 'utf8')).split(/\r\n|\n|\r/);
+    lines.forEach(line => {
+      const [code3, continent] = line.trim().split(/\s+/);
+
+      if (code3 && continent)
+        code3ToContinent[code3] = continent;
+    });
+
     lines = (await getFileContents('app/data/us_counties.txt', 'utf8')).split(/\r\n|\n|\r/);
     lines.forEach(line => usCounties.add(line.trim()));
     // Add this fake county to suppress errors when DC is reported at the county level of a place hierarchy.
@@ -291,6 +311,17 @@ export function simplify(s: string, asVariant = false, processAbbreviations = tr
   return sb.join('');
 }
 
+// Like simplify(), but for names in non-Latin scripts, which simplify() would reduce to nothing.
+export function simplifyAnyScript(s: string): string {
+  const simplified = simplify(s);
+
+  if (simplified || !s)
+    return simplified;
+
+  return s.replace(/\(.*/, '').normalize('NFKD').replace(/\p{M}/gu, '').toUpperCase()
+    .replace(/[^\p{L}\p{N}]/gu, '').substr(0, 40);
+}
+
 function startsWithICND(testee: string, test: string): boolean { // Ignore Case aNd Diacriticals
   if (!testee || !test)
     return false;
@@ -412,6 +443,27 @@ export function getCode3ForCountry(country: string): string {
   return nameToCode3[country];
 }
 
+// Accepts two-letter continent codes, as used by GeoNames, or continent names, as used by Getty
+// (e.g. "North and Central America").
+export function getContinentCode(continent: string): string {
+  if (!continent)
+    return undefined;
+
+  const code = continent.trim().toUpperCase();
+
+  if (continentNames[code])
+    return code;
+
+  const name = simplify(continent);
+
+  if (/^(NORTH|CENTRAL)(AND(CENTRAL|NORTH))?AMERICA/.test(name))
+    return 'NA';
+  else if (/^(AUSTRALIA|OCEANIA|PACIFIC)/.test(name))
+    return 'OC';
+
+  return Object.keys(continentNames).find(key => simplify(continentNames[key]) === name);
+}
+
 const APARTMENTS_ETC = new RegExp('\\b((mobile|trailer|vehicle)\\s+(acre|city|community|corral|court|estate|garden|grove|harbor|haven|' +
                                   'home|inn|lodge|lot|manor|park|plaza|ranch|resort|terrace|town|villa|village)s?)|' +
                                   '((apartment|condominium|\\(subdivision\\))s?)\\b', 'i');
@@ -670,6 +722,7 @@ export function parseSearchString(q: string, mode: ParseMode): ParsedSearchStrin
 
   parsed.postalCode = postalCode;
   parsed.targetCity = targetCity;
+  parsed.rawCity = (postalCode ? '' : parts[0]);
   parsed.targetState = targetState;
   parsed.normalizedSearch = postalCode || targetCity;
 
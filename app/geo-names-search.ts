@@ -1,25 +1,90 @@
 import {
-  closeMatchForCity, closeMatchForState, code2ToCode3, containsMatchingLocation, getFlagCode, LocationMap,
-  makeLocationKey, processPlaceNames, standardizeShortCountyName
+  closeMatchForCity, closeMatchForState, code2ToCode3, code3ToCode2, code3ToName, containsMatchingLocation, getCode3ForCountry,
+  getContinentCode, getFlagCode, LocationMap, longStates, makeLocationKey, processPlaceNames, standardizeShortCountyName,
+  stateAbbreviations
 } from './gazetteer';
-import { SOURCE_GEONAMES_GENERAL_UPDATE, SOURCE_GEONAMES_POSTAL_UPDATE, timedPromise } from './common';
+import { formatVariablePrecision, SOURCE_GEONAMES_GENERAL_UPDATE, SOURCE_GEONAMES_POSTAL_UPDATE, timedPromise } from './common';
 import { AtlasLocation } from './atlas-location';
-import { processMillis, toInt } from '@tubular/util';
+import { RemoteSource, RemoteSourceMetrics } from './remote-sources';
+import { quotaAvailable, recordUsage } from './quota';
+import { makePlainASCII_UC, processMillis, toInt } from '@tubular/util';
 import { requestJson } from 'by-request';
 
-export interface GeoNamesMetrics {
+export interface GeoNamesMetrics extends RemoteSourceMetrics {
   retrievalTime: number;
   rawCount: number;
   matchedCount: number;
 }
 
+// Remove PRK for now -- too many obscure matches.
+export const GEONAMES_FEATURE_CODES = [
+  'LK', 'MILB', 'PPL', 'PPLA', 'PPLA2', 'PPLA3', 'PPLA4', 'PPLC', 'PPLF', 'PPLG', 'PPLL', 'PPLQ', 'PPLR', 'PPLS', 'PPLW',
+  'PPLX', 'ASTR', 'ATHF', 'CTRS', 'OBS', 'STNB', 'ATOL', 'CAPE', 'ISL', 'MT', 'PK'
+];
+
 const MAX_TIME_GEONAMES = 20; // seconds
+const GEONAMES_PAGE_SIZE = 100;
+const GEONAMES_MAX_RESULTS = toInt(process.env.GEONAMES_MAX_RESULTS, 300);
 const FAKE_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:98.0) Gecko/20100101 Firefox/98.0';
+// GeoNames "alternate names" also include links, airport codes, postal codes, etc., tagged with these pseudo-languages.
+export const NON_NAME_LANGUAGES = new Set(['faac', 'iata', 'icao', 'link', 'post', 'tcid', 'unlc', 'wkdt']);
+
+export const geoNamesSource: RemoteSource<GeoNamesMetrics> = {
+  name: 'geonames',
+  title: 'GeoNames',
+  sourceId: SOURCE_GEONAMES_GENERAL_UPDATE,
+  primary: true,
+  postalCodes: true,
+  quota: 'geonames',
+  timeLimit: MAX_TIME_GEONAMES,
+  search: (parsed, metrics, noTrace) => geoNamesSearch(parsed.targetCity, parsed.targetState, parsed.postalCode, metrics, noTrace),
+  summarize: metrics => [`GeoName raw matches: ${metrics.rawCount}, filtered matches: ${metrics.matchedCount}, \
+retrieval time: ${formatVariablePrecision(metrics.retrievalTime / 1000)}s.`]
+};
 
 export async function geoNamesSearch(targetCity: string, targetState: string, postalCode: string, metrics: GeoNamesMetrics, noTrace: boolean): Promise<LocationMap> {
   return timedPromise(geoNamesSearchAux(targetCity, targetState, postalCode, metrics, noTrace), MAX_TIME_GEONAMES * 1000, 'GeoNames search timed out');
 }
 
+export function geoNamesRank(placeType: string, population: number): number {
+  let rank = 0;
+
+  if (placeType.startsWith('A.') || placeType.startsWith('P.')) {
+    ++rank;
+
+    if (placeType.endsWith('PPLC'))
+      ++rank;
+
+    if (population > 0)
+      rank += (population >= 1000000 ? 2 : 1);
+  }
+
+  return rank;
+}
+
+// The two-letter code for the country that targetState refers to, but only when it can't be taken as a US state or
+// Canadian province instead.
+function targetCountryCode(targetState: string): string {
+  if (!targetState)
+    return undefined;
+
+  const target = targetState.trim().toUpperCase();
+
+  if (longStates[target] || stateAbbreviations[makePlainASCII_UC(target)])
+    return undefined;
+
+  const code3 = getCode3ForCountry(target) || (code3ToName[target] ? target : code2ToCode3[target]);
+
+  return code3ToCode2[code3];
+}
+
+function addGeoNamesAlternates(location: AtlasLocation, alternateNames: any[]): void {
+  for (const alt of (Array.isArray(alternateNames) ? alternateNames : [])) {
+    if (!NON_NAME_LANGUAGES.has(alt.lang))
+      location.addAlternateName(alt.name, alt.lang);
+  }
+}
+
 async function geoNamesSearchAux(targetCity: string, targetState: string, postalCode: string, metrics: GeoNamesMetrics, noTrace: boolean): Promise<LocationMap> {
   const startTime = processMillis();
   const keyedPlaces = new LocationMap();
@@ -33,12 +98,11 @@ async function geoNamesSearchAux(targetCity: string, targetState: string, postal
   if (postalCode)
     url += '&postalcode=';
   else {
+    const country = targetCountryCode(targetState);
+
     url += '&isNameRequired=true'
-            // Remove &featureCode=PRK for now -- too many obscure matches.
-         + '&featureCode=LK&featureCode=MILB&featureCode=PPL&featureCode=PPLA&featureCode=PPLA2&featureCode=PPLA3'
-         + '&featureCode=PPLA4&featureCode=PPLC&featureCode=PPLF&featureCode=PPLG&featureCode=PPLL&featureCode=PPLQ&featureCode=PPLR'
-         + '&featureCode=PPLS&featureCode=PPLW&featureCode=PPLX&featureCode=ASTR&featureCode=ATHF&featureCode=CTRS&featureCode=OBS'
-         + '&featureCode=STNB&featureCode=ATOL&featureCode=CAPE&featureCode=ISL&featureCode=MT&featureCode=PK'
+         + GEONAMES_FEATURE_CODES.map(code => '&featureCode=' + code).join('')
+         + (country ? '&country=' + country : '')
          + '&name_startsWith=';
   }
 
@@ -46,20 +110,37 @@ async function geoNamesSearchAux(targetCity: string, targetState: string, postal
 
   let geonames: any[];
   const options = { headers: { 'User-Agent': FAKE_USER_AGENT } };
-  let results: any;
 
-  try {
-    results = await requestJson(url, options);
-  }
-  catch (err) {
-    throw new Error('GeoNames error: ' + err);
-  }
+  // Name searches are paged through, up to GEONAMES_MAX_RESULTS, rather than settling for GeoNames' default row limit.
+  for (let startRow = 0; ;) {
+    const maxRows = Math.min(GEONAMES_PAGE_SIZE, GEONAMES_MAX_RESULTS - startRow);
+    let results: any;
+    let page: any[];
 
-  if (results) {
-    if (!postalCode && results.totalResultsCount > 0 && Array.isArray(results.geonames))
-      geonames = results.geonames;
-    else if (postalCode && Array.isArray(results.postalCodes))
-      geonames = results.postalCodes;
+    try {
+      recordUsage('geonames');
+      results = await requestJson(url + (postalCode ? '' : `&maxRows=${maxRows}&startRow=${startRow}`), options);
+    }
+    catch (err) {
+      throw new Error('GeoNames error: ' + err);
+    }
+
+    if (results) {
+      if (!postalCode && results.totalResultsCount > 0 && Array.isArray(results.geonames))
+        page = results.geonames;
+      else if (postalCode && Array.isArray(results.postalCodes))
+        page = results.postalCodes;
+    }
+
+    if (!page)
+      break;
+
+    geonames = (geonames ?? []).concat(page);
+    startRow += page.length;
+
+    if (postalCode || page.length < maxRows || startRow >= results.totalResultsCount || startRow >= GEONAMES_MAX_RESULTS ||
+        !quotaAvailable('geonames'))
+      break;
   }
 
   if (geonames) {
@@ -95,25 +176,17 @@ async function geoNamesSearchAux(targetCity: string, targetState: string, postal
            closeMatchForState(targetState, state, country)) {
         const location = new AtlasLocation();
         const population = toInt(geoname.population);
-        let rank = 0;
-
-        if (placeType.startsWith('A.') || placeType.startsWith('P.')) {
-          ++rank;
-
-          if (placeType.endsWith('PPLC'))
-            ++rank;
-
-          if (population > 0)
-            rank += (population >= 1000000 ? 2 : 1);
-        }
+        const rank = geoNamesRank(placeType, population);
 
         location.city = names.city;
         location.county = names.county;
         location.state = names.state;
         location.country = names.country;
         location.longCountry = names.longCountry;
+        location.continent = getContinentCode(names.continent);
         location.flagCode = getFlagCode(names.country, names.state);
         location.rank = rank;
+        location.population = (population > 0 ? population : undefined);
         location.placeType = placeType;
         location.latitude = geoname.lat;
         location.longitude = geoname.lng;
@@ -122,6 +195,8 @@ async function geoNamesSearchAux(targetCity: string, targetState: string, postal
         location.variant = names.variant;
         location.source = (postalCode ? SOURCE_GEONAMES_POSTAL_UPDATE : SOURCE_GEONAMES_GENERAL_UPDATE);
         location.geonameID = geoname.geonameId;
+        location.matchType = (postalCode ? 'POSTAL_CODE' : 'NAME_STARTS_WITH');
+        addGeoNamesAlternates(location, geoname.alternateNames);
 
         if (!containsMatchingLocation(keyedPlaces, location)) {
           keyedPlaces.set(makeLocationKey(location.city, location.state, location.country, keyedPlaces), location);
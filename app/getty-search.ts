@@ -1,12 +1,17 @@
 import { closeMatchForCity, closeMatchForState, containsMatchingLocation, fixRearrangedName, getCode3ForCountry,
-  getFlagCode, LocationMap, makeLocationKey, processPlaceNames } from './gazetteer';
-import { SOURCE_GETTY_UPDATE, timedPromise } from './common';
+  getContinentCode, getFlagCode, LocationMap, makeLocationKey, processPlaceNames } from './gazetteer';
+import { ConcurrencyLimiter, formatVariablePrecision, SOURCE_GETTY_UPDATE, timedPromise } from './common';
 import { AtlasLocation } from './atlas-location';
+import { RemoteSource, RemoteSourceMetrics } from './remote-sources';
 import { getTimeZone } from './timezones';
+import { findAtlasTimezone } from './zone-for-location';
+import { atlasDb } from './atlas_database';
+import { AtlasConnection } from './atlas-repository';
+import { svcApiConsole } from './svc-api-logger';
 import { toNumber, toInt, processMillis } from '@tubular/util';
 import { requestText } from 'by-request';
 
-export interface GettyMetrics {
+export interface GettyMetrics extends RemoteSourceMetrics {
   totalTime: number;
   preliminaryTime: number;
   retrievalTime: number;
@@ -18,8 +23,33 @@ export interface GettyMetrics {
 
 const MAX_TIME_GETTY = 110; // seconds
 const PREFERRED_RETRIEVAL_TIME_GETTY = 40; // seconds
+const MAX_CONCURRENT_RETRIEVALS_GETTY = 4;
 const FAKE_USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:98.0) Gecko/20100101 Firefox/98.0';
 
+export const gettySource: RemoteSource<GettyMetrics> = {
+  name: 'getty',
+  title: 'Getty',
+  sourceId: SOURCE_GETTY_UPDATE,
+  timeLimit: MAX_TIME_GETTY,
+  search: (parsed, metrics, noTrace) => gettySearch(parsed.targetCity, parsed.targetState, metrics, noTrace),
+  summarize: metrics => {
+    const lines: string[] = [];
+    const totalTime = formatVariablePrecision(metrics.totalTime / 1000);
+    const preliminaryTime = formatVariablePrecision(metrics.preliminaryTime / 1000);
+    const retrievalTime = formatVariablePrecision(metrics.retrievalTime / 1000);
+
+    if (metrics.failedSyntax)
+      lines.push('Getty failed search syntax: ' + metrics.failedSyntax);
+
+    lines.push(`Getty remote data: ${metrics.retrievedCount}\
+${metrics.retrievedCount === metrics.matchedCount ? '' : ' of ' + metrics.matchedCount} \
+item${metrics.matchedCount === 1 ? '' : 's'} retrieved, total time: ${totalTime}s, preliminary time: \
+${preliminaryTime}s, retrieval time: ${retrievalTime}s.`);
+
+    return lines;
+  }
+};
+
 export async function gettySearch(targetCity: string, targetState: string, metrics: GettyMetrics, noTrace: boolean): Promise<LocationMap> {
   return timedPromise(gettySearchAux(targetCity, targetState, metrics, noTrace), MAX_TIME_GETTY * 1000, 'Getty search timed out');
 }
@@ -31,32 +61,44 @@ async function gettySearchAux(targetCity: string, targetState: string, metrics:
   const itemCount = keyedPlaces.size;
   const matches = new LocationMap();
   const retrievalStartTime = processMillis();
-  let goodFormat: boolean;
-  let latitude = 0.0;
-  let location: AtlasLocation;
-  let longitude = 0.0;
+  const retrievalDeadline = retrievalStartTime + PREFERRED_RETRIEVAL_TIME_GETTY * 1000;
+  const limiter = new ConcurrencyLimiter(MAX_CONCURRENT_RETRIEVALS_GETTY);
+  const coordinates: { latitude: number, longitude: number }[] = [];
+  let failure: Error;
   let retrieved = 0;
   let hasCoordinates = 0;
-  let $: string[];
 
-  for (let i = 0; i < originalKeys.length; ++i) {
-    let key = originalKeys[i];
+  await Promise.all(originalKeys.map((key, index) => limiter.run(async () => {
+    const remainingTime = retrievalDeadline - processMillis();
+
+    // If this is taking too long, settle for what has already been retrieved and give up on the rest.
+    if (failure || remainingTime <= 0)
+      return;
+
     const url = 'http://www.getty.edu/vow/TGNFullDisplay?find=&place=&nation=&english=Y&subjectid=' + key;
-    const options = { headers: { 'User-Agent': FAKE_USER_AGENT, Referer: 'http://www.getty.edu/vow/TGNServlet' } };
+    // The time remaining in the budget also serves as a timeout, so that requests still underway when time
+    // runs out are abandoned rather than left to hold things up.
+    const options = {
+      headers: { 'User-Agent': FAKE_USER_AGENT, Referer: 'http://www.getty.edu/vow/TGNServlet' },
+      timeout: remainingTime
+    };
     let lines: string[];
 
     try {
       lines = (await requestText(url, options)).split(/\r\n|\n|\r/);
     }
     catch (err) {
-      throw new Error('Getty secondary error: ' + err);
+      if (processMillis() < retrievalDeadline)
+        failure = failure ?? new Error('Getty secondary error: ' + err);
+
+      return;
     }
 
     let pending = false;
-    let gotLat = false;
-    let gotLong = false;
-
-    goodFormat = false;
+    let goodFormat = false;
+    let latitude: number;
+    let longitude: number;
+    let $: string[];
 
     for (const line of lines) {
       if (($ = /<B>ID: (\d+)<\/B>/.exec(line)) && key === $[1]) {
@@ -64,23 +106,13 @@ async function gettySearchAux(targetCity: string, targetState: string, metrics:
         goodFormat = true;
         ++retrieved;
       }
-      else if (pending && ($ = /Lat:\s*([-.0-9]+).*decimal degrees</.exec(line))) {
+      else if (pending && ($ = /Lat:\s*([-.0-9]+).*decimal degrees</.exec(line)))
         latitude = toNumber($[1]);
-        gotLat = true;
-      }
-      else if (pending && ($ = /Long:\s*([-.0-9]+).*decimal degrees</.exec(line))) {
+      else if (pending && ($ = /Long:\s*([-.0-9]+).*decimal degrees</.exec(line)))
         longitude = toNumber($[1]);
-        gotLong = true;
-      }
 
-      if (gotLat && gotLong) {
-        location = keyedPlaces.get(key);
-
-        location.latitude = latitude;
-        location.longitude = longitude;
-
-        key = makeLocationKey(location.city, location.state, location.country, matches);
-        matches.set(key, location);
+      if (latitude != null && longitude != null) {
+        coordinates[index] = { latitude, longitude };
         ++hasCoordinates;
 
         break;
@@ -88,15 +120,24 @@ async function gettySearchAux(targetCity: string, targetState: string, metrics:
     }
 
     if (!goodFormat)
-      throw new Error('Failed to parse secondary Getty data.');
+      failure = failure ?? new Error('Failed to parse secondary Getty data.');
+  })));
 
-    const totalTimeSoFar = processMillis() - retrievalStartTime;
-    const remainingTime = PREFERRED_RETRIEVAL_TIME_GETTY * 1000 - totalTimeSoFar;
+  if (failure)
+    throw failure;
 
-    // If this is taking too long, settle for what has already been retrieved and give up on the rest.
-    if (remainingTime <= 0)
-      break;
-  }
+  // Matches are added in the original order, regardless of the order in which retrievals completed.
+  originalKeys.forEach((key, index) => {
+    if (coordinates[index]) {
+      const location = keyedPlaces.get(key);
+
+      location.latitude = coordinates[index].latitude;
+      location.longitude = coordinates[index].longitude;
+      matches.set(makeLocationKey(location.city, location.state, location.country, matches), location);
+    }
+  });
+
+  await resolveAmbiguousZones(matches.values);
 
   if (metrics) {
     const missingCoordinates = retrieved - hasCoordinates;
@@ -112,6 +153,34 @@ async function gettySearchAux(targetCity: string, targetState: string, metrics:
   return matches;
 }
 
+// Zones found by place hierarchy alone are uncertain (marked with a trailing "?") for countries, states, etc. which span
+// more than one time zone. Once coordinates are known, nearby atlas entries can usually settle the matter.
+async function resolveAmbiguousZones(locations: AtlasLocation[]): Promise<void> {
+  locations = locations.filter(location => !location.zone || location.zone.endsWith('?'));
+
+  if (locations.length === 0)
+    return;
+
+  let connection: AtlasConnection;
+
+  try {
+    connection = await atlasDb.getReadConnection();
+
+    for (const location of locations) {
+      const found = await findAtlasTimezone(connection, location.latitude, location.longitude);
+
+      if (found && found.country === location.country)
+        location.zone = found.timeZoneId;
+    }
+  }
+  catch (err) {
+    // Uncertain zones are better than no results at all.
+    svcApiConsole.error('Getty time zone resolution error: ' + err);
+  }
+
+  connection?.release();
+}
+
 enum Stage { LOOKING_FOR_ID_CODE, LOOKING_FOR_PLACE_NAME, LOOKING_FOR_HIERARCHY, LOOKING_FOR_EXTRAS_OR_END, PLACE_HAS_BEEN_PARSED }
 
 async function gettyPreliminarySearch(targetCity: string, targetState: string, metrics: GettyMetrics, noTrace: boolean): Promise<LocationMap> {
@@ -304,6 +373,7 @@ async function gettyPreliminarySearch(targetCity: string, targetState: string, m
           longState = names.longState;
           country = names.country;
           longCountry = names.longCountry;
+          continent = getContinentCode(names.continent);
 
           if (placeType === 'nation' || placeType === 'dependent state') {
             city = longCountry;
@@ -364,11 +434,14 @@ async function gettyPreliminarySearch(targetCity: string, targetState: string, m
             location.state = state;
             location.country = country;
             location.longCountry = longCountry;
+            location.continent = continent;
             location.flagCode = getFlagCode(country, state);
             location.placeType = placeType;
             location.variant = variant;
             location.source = SOURCE_GETTY_UPDATE;
             location.rank = 0; // TODO: Can be improved?
+            location.matchType = (asAlternate ? 'ALT_NAME' : 'NAME_STARTS_WITH');
+            [names.city, vernacular, ...altNames.split(';')].forEach(name => location.addAlternateName(name));
 
             if (!containsMatchingLocation(keyedPlaces, location) &&
                 !containsMatchingLocation(altKeyedPlaces, location)) {
@@ -0,0 +1,395 @@
+// Bulk import of GeoNames dump files into atlas2, as an alternative to picking up GeoNames data one remote search at a time.
+//
+// Usage: npm run import-geonames -- [--postal] [--admin1 file] [--admin2 file] [--alternates file] [--min-population n]
+//                                   [--dry-run] file...
+//
+// Data files are unzipped GeoNames dumps, either allCountries.txt or per-country files such as US.txt from
+// https://download.geonames.org/export/dump/, or, with --postal, the postal code dumps from
+// https://download.geonames.org/export/zip/. State/province and county names for the general dumps come from
+// admin1CodesASCII.txt and admin2Codes.txt, which by default are looked for alongside the first data file.
+//
+// Language-tagged alternate names, which searches and results using the lang parameter depend on, come from
+// alternateNamesV2.txt (in alternateNamesV2.zip, or a per-country alternatenames/XX.zip), also looked for by default
+// alongside the first data file. Only names for the locations being imported are added to atlas_alt_names, and
+// colloquial and historic names are left out.
+
+import { createReadStream, existsSync } from 'fs';
+import { dirname, join as pathJoin } from 'path';
+import { createInterface } from 'readline';
+import {
+  code2ToCode3, code3ToContinent, initGazetteer, processPlaceNames, simplifyAnyScript, standardizeShortCountyName
+} from './gazetteer';
+import { atlasDb, importAtlasLocation, ImportOutcome, useCommandLineDefaults } from './atlas_database';
+import { AtlasLocation } from './atlas-location';
+import { SOURCE_GEONAMES_GENERAL_UPDATE, SOURCE_GEONAMES_POSTAL_UPDATE } from './common';
+import { GEONAMES_FEATURE_CODES, geoNamesRank, NON_NAME_LANGUAGES } from './geo-names-search';
+import { getTimeZone, initTimezones } from './timezones';
+import { AltNameRow, AtlasConnection } from './atlas-repository';
+import { toInt, toNumber } from '@tubular/util';
+
+interface ImportOptions {
+  postal: boolean;
+  admin1File: string;
+  admin2File: string;
+  alternatesFile: string;
+  minPopulation: number;
+  dryRun: boolean;
+  files: string[];
+}
+
+type ImportCounts = Record<ImportOutcome | 'skipped' | 'failed', number>;
+
+type AlternateCounts = Record<'inserted' | 'present' | 'skipped' | 'failed', number>;
+
+interface AlternateTarget {
+  itemNo: number;
+  keyName: string;
+  name: string;
+  existing: Set<string>; // alt_name + tab + lang
+}
+
+const PROGRESS_INTERVAL = 10000; // lines
+
+const featureCodes = new Set(GEONAMES_FEATURE_CODES);
+
+function parseArgs(args: string[]): ImportOptions {
+  const options: ImportOptions = {
+    postal: false, admin1File: null, admin2File: null, alternatesFile: null, minPopulation: 0, dryRun: false, files: []
+  };
+
+  for (let i = 0; i < args.length; ++i) {
+    const arg = args[i];
+
+    if (arg === '--postal')
+      options.postal = true;
+    else if (arg === '--admin1')
+      options.admin1File = args[++i];
+    else if (arg === '--admin2')
+      options.admin2File = args[++i];
+    else if (arg === '--alternates')
+      options.alternatesFile = args[++i];
+    else if (arg === '--min-population')
+      options.minPopulation = toInt(args[++i]);
+    else if (arg === '--dry-run')
+      options.dryRun = true;
+    else if (arg.startsWith('--'))
+      throw new Error(`Unknown option ${arg}`);
+    else
+      options.files.push(arg);
+  }
+
+  if (options.files.length === 0)
+    throw new Error('Usage: import-geonames [--postal] [--admin1 file] [--admin2 file] [--alternates file] ' +
+      '[--min-population n] [--dry-run] file...');
+
+  const dataDir = dirname(options.files[0]);
+
+  options.admin1File = options.admin1File ?? pathJoin(dataDir, 'admin1CodesASCII.txt');
+  options.admin2File = options.admin2File ?? pathJoin(dataDir, 'admin2Codes.txt');
+  options.alternatesFile = options.alternatesFile ?? pathJoin(dataDir, 'alternateNamesV2.txt');
+
+  return options;
+}
+
+function readLines(file: string): AsyncIterable<string> {
+  return createInterface({ input: createReadStream(file, 'utf8'), crlfDelay: Infinity });
+}
+
+// Maps codes like "US.NH" (admin1) or "US.NH.011" (admin2) to names.
+async function loadAdminNames(file: string, postal: boolean): Promise<Record<string, string>> {
+  const names: Record<string, string> = {};
+
+  if (postal)
+    return names;
+  else if (!existsSync(file)) {
+    console.warn(`${file} not found, imported locations will lack some state, province and county names.`);
+    return names;
+  }
+
+  for await (const line of readLines(file)) {
+    const [code, name] = line.split('\t');
+
+    if (code && name)
+      names[code] = name;
+  }
+
+  return names;
+}
+
+function createLocation(name: string, county: string, state: string, countryCode: string): AtlasLocation {
+  const country = code2ToCode3[countryCode] || countryCode;
+
+  if (country === 'USA')
+    county = standardizeShortCountyName(county);
+
+  const names = processPlaceNames(name, county || '', state || '', country, code3ToContinent[country], false, true);
+
+  if (!names)
+    return null;
+
+  const location = new AtlasLocation();
+
+  location.city = names.city;
+  location.variant = names.variant;
+  location.county = names.county;
+  location.state = names.state;
+  location.country = names.country;
+
+  return location;
+}
+
+// Columns: geonameid, name, asciiname, alternatenames, latitude, longitude, feature class, feature code, country code,
+// cc2, admin1 code, admin2 code, admin3 code, admin4 code, population, elevation, dem, timezone, modification date.
+function parseGeneralLine(fields: string[], admin1Names: Record<string, string>, admin2Names: Record<string, string>,
+                          minPopulation: number): AtlasLocation {
+  if (fields.length < 18 || !featureCodes.has(fields[7]))
+    return null;
+
+  const population = toInt(fields[14]);
+
+  if (population < minPopulation)
+    return null;
+
+  const countryCode = fields[8];
+  const state = (countryCode === 'US' ? fields[10] : admin1Names[`${countryCode}.${fields[10]}`]);
+  const county = admin2Names[`${countryCode}.${fields[10]}.${fields[11]}`];
+  const location = createLocation(fields[1], county, state, countryCode);
+
+  if (!location)
+    return null;
+
+  const placeType = fields[6] + '.' + fields[7];
+  const dem = toInt(fields[16], -9999);
+
+  location.latitude = toNumber(fields[4]);
+  location.longitude = toNumber(fields[5]);
+  location.elevation = toInt(fields[15], dem > -9999 ? dem : 0);
+  location.zone = fields[17];
+  location.placeType = placeType;
+  location.rank = geoNamesRank(placeType, population);
+  location.population = (population > 0 ? population : undefined);
+  location.source = SOURCE_GEONAMES_GENERAL_UPDATE;
+  location.geonameID = toInt(fields[0]);
+
+  return location;
+}
+
+// Columns: country code, postal code, place name, admin name1, admin code1, admin name2, admin code2, admin name3,
+// admin code3, latitude, longitude, accuracy.
+function parsePostalLine(fields: string[]): AtlasLocation {
+  if (fields.length < 11 || !fields[1] || !fields[9] || !fields[10])
+    return null;
+
+  const countryCode = fields[0];
+  const location = createLocation(fields[2], fields[5], countryCode === 'US' ? fields[4] : fields[3], countryCode);
+
+  if (!location)
+    return null;
+
+  location.latitude = toNumber(fields[9]);
+  location.longitude = toNumber(fields[10]);
+  location.zip = fields[1];
+  location.placeType = 'P.PPL';
+  location.rank = geoNamesRank(location.placeType, 0);
+  location.source = SOURCE_GEONAMES_POSTAL_UPDATE;
+  location.zone = getTimeZone(location);
+
+  return location;
+}
+
+function formatCounts(counts: ImportCounts): string {
+  return `${counts.inserted} inserted, ${counts.updated} updated, ${counts.unchanged} unchanged, ` +
+    `${counts.skipped} skipped, ${counts.failed} failed`;
+}
+
+async function importFile(connection: AtlasConnection, file: string, options: ImportOptions,
+                          admin1Names: Record<string, string>, admin2Names: Record<string, string>,
+                          geoNamesIds: Set<number>): Promise<ImportCounts> {
+  const counts: ImportCounts = { inserted: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0 };
+  let lineNo = 0;
+
+  for await (const line of readLines(file)) {
+    ++lineNo;
+
+    if (lineNo % PROGRESS_INTERVAL === 0)
+      console.log(`${file}: ${lineNo} lines, ${formatCounts(counts)}`);
+
+    if (!line.trim() || line.startsWith('#'))
+      continue;
+
+    const fields = line.split('\t');
+
+    try {
+      const location = (options.postal ? parsePostalLine(fields) :
+        parseGeneralLine(fields, admin1Names, admin2Names, options.minPopulation));
+
+      if (!location || !location.zone)
+        ++counts.skipped;
+      else {
+        if (options.dryRun)
+          ++counts.inserted;
+        else
+          ++counts[await importAtlasLocation(connection, location)];
+
+        if (location.geonameID)
+          geoNamesIds.add(location.geonameID);
+      }
+    }
+    catch (err) {
+      ++counts.failed;
+      console.error(`${file}, line ${lineNo}: ${err}`);
+    }
+  }
+
+  return counts;
+}
+
+function formatAlternateCounts(counts: AlternateCounts): string {
+  return `${counts.inserted} alternate names inserted, ${counts.present} already present, ${counts.skipped} skipped, ` +
+    `${counts.failed} failed`;
+}
+
+async function findAlternateTarget(connection: AtlasConnection, geoNamesId: number): Promise<AlternateTarget> {
+  const row = (await connection.findAtlasByGeoNamesId(geoNamesId))[0];
+
+  if (!row)
+    return null;
+
+  const altNames = await connection.findAltNamesForItems([row.item_no], []);
+  const existing = altNames.filter(altName => altName.specific_item2 === row.item_no)
+    .map(altName => altName.alt_name + '\t' + altName.lang);
+
+  return { itemNo: row.item_no, keyName: row.key_name, name: row.name, existing: new Set(existing) };
+}
+
+// Columns: alternateNameId, geonameid, isolanguage, alternate name, isPreferredName, isShortName, isColloquial,
+// isHistoric, from, to.
+async function importAlternates(connection: AtlasConnection, file: string, geoNamesIds: Set<number>,
+                                dryRun: boolean): Promise<AlternateCounts> {
+  const counts: AlternateCounts = { inserted: 0, present: 0, skipped: 0, failed: 0 };
+  const targets = new Map<number, AlternateTarget>();
+  let lineNo = 0;
+
+  for await (const line of readLines(file)) {
+    ++lineNo;
+
+    if (lineNo % PROGRESS_INTERVAL === 0)
+      console.log(`${file}: ${lineNo} lines, ${formatAlternateCounts(counts)}`);
+
+    const fields = line.split('\t');
+    const geoNamesId = toInt(fields[1]);
+
+    if (!geoNamesIds.has(geoNamesId))
+      continue;
+
+    const lang = (fields[2] || '').toLowerCase();
+    const name = (fields[3] || '').trim();
+
+    if (!name || NON_NAME_LANGUAGES.has(lang) || fields[6] === '1' || fields[7] === '1') {
+      ++counts.skipped;
+      continue;
+    }
+    else if (dryRun) {
+      ++counts.inserted;
+      continue;
+    }
+
+    try {
+      if (!targets.has(geoNamesId))
+        targets.set(geoNamesId, await findAlternateTarget(connection, geoNamesId));
+
+      const target = targets.get(geoNamesId);
+      const altKey = name + '\t' + lang;
+
+      if (!target || (!lang && name === target.name)) {
+        ++counts.skipped;
+        continue;
+      }
+      else if (target.existing.has(altKey)) {
+        ++counts.present;
+        continue;
+      }
+
+      const altName: AltNameRow = {
+        alt_key_name: simplifyAnyScript(name),
+        alt_name: name,
+        atlas_key_name: target.keyName,
+        specific_item2: target.itemNo,
+        lang,
+        misspelling: 'N'
+      };
+
+      if (!altName.alt_key_name) {
+        ++counts.skipped;
+        continue;
+      }
+
+      await connection.insertAltName(altName);
+      target.existing.add(altKey);
+      ++counts.inserted;
+    }
+    catch (err) {
+      ++counts.failed;
+      console.error(`${file}, line ${lineNo}: ${err}`);
+    }
+  }
+
+  return counts;
+}
+
+async function importGeoNames(options: ImportOptions): Promise<void> {
+  await initGazetteer();
+
+  if (options.postal)
+    await initTimezones();
+
+  const admin1Names = await loadAdminNames(options.admin1File, options.postal);
+  const admin2Names = await loadAdminNames(options.admin2File, options.postal);
+  const connection = (options.dryRun ? null : await atlasDb.getConnection());
+  const totals: ImportCounts = { inserted: 0, updated: 0, unchanged: 0, skipped: 0, failed: 0 };
+  const geoNamesIds = new Set<number>();
+
+  try {
+    for (const file of options.files) {
+      const counts = await importFile(connection, file, options, admin1Names, admin2Names, geoNamesIds);
+
+      console.log(`${file}: ${formatCounts(counts)}`);
+      Object.keys(totals).forEach((key: keyof ImportCounts) => { totals[key] += counts[key]; });
+    }
+
+    if (options.files.length > 1)
+      console.log(`Total: ${formatCounts(totals)}`);
+
+    if (!options.postal && !existsSync(options.alternatesFile))
+      console.warn(`${options.alternatesFile} not found, no alternate names imported, so localized (lang) searches ` +
+        'will find few matches.');
+    else if (!options.postal) {
+      const counts = await importAlternates(connection, options.alternatesFile, geoNamesIds, options.dryRun);
+
+      console.log(`${options.alternatesFile}: ${formatAlternateCounts(counts)}`);
+    }
+  }
+  finally {
+    connection?.release();
+  }
+
+  if (options.dryRun)
+    console.log('Dry run, no changes made. "Inserted" counts are locations which would have been imported.');
+}
+
+(async (): Promise<void> => {
+  let status = 0;
+
+  useCommandLineDefaults();
+
+  try {
+    await importGeoNames(parseArgs(process.argv.slice(2)));
+  }
+  catch (err) {
+    console.error(err.message ?? err);
+    status = 1;
+  }
+
+  await atlasDb.end().catch(() => {});
+  process.exit(status);
+})();
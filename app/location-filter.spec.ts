@@ -0,0 +1,72 @@
+import { expect } from 'chai';
+import { initGazetteer } from './gazetteer';
+import { parseLocationFilter } from './location-filter';
+
+describe('location-filter', () => {
+  before(() => initGazetteer());
+
+  describe('parseLocationFilter', () => {
+    it('should parse near and radius', () => {
+      expect(parseLocationFilter({ near: '42.75, -71.46', radius: '25' }))
+        .to.deep.equal({ near: { latitude: 42.75, longitude: -71.46 }, radius: 25 });
+      expect(parseLocationFilter({ near: '42.75,-71.46', sort: 'distance' }).sortByDistance).to.be.true;
+    });
+
+    it('should reject invalid near locations and radii', () => {
+      expect(parseLocationFilter({ near: '42.75' }).error).to.match(/^near/);
+      expect(parseLocationFilter({ near: '91,0' }).error).to.match(/^near/);
+      expect(parseLocationFilter({ near: '0,181' }).error).to.match(/^near/);
+      expect(parseLocationFilter({ radius: '25' }).error).to.equal('radius requires a near location');
+      expect(parseLocationFilter({ near: '0,0', radius: '0' }).error).to.match(/^radius must/);
+      expect(parseLocationFilter({ near: '0,0', radius: 'far' }).error).to.match(/^radius must/);
+      expect(parseLocationFilter({ sort: 'distance' }).error).to.match(/requires a near location/);
+    });
+
+    it('should parse bounding boxes, including those crossing the antimeridian', () => {
+      expect(parseLocationFilter({ bbox: '40,-75,45,-70' }).bbox).to.deep.equal({ south: 40, west: -75, north: 45, east: -70 });
+      expect(parseLocationFilter({ bbox: '-20,170,-10,-170' }).bbox).to.deep.equal({ south: -20, west: 170, north: -10, east: -170 });
+    });
+
+    it('should reject invalid bounding boxes', () => {
+      expect(parseLocationFilter({ bbox: '40,-75,45' }).error).to.match(/^bbox/);
+      expect(parseLocationFilter({ bbox: '45,-75,40,-70' }).error).to.match(/^bbox/);
+      expect(parseLocationFilter({ bbox: '40,-75,95,-70' }).error).to.match(/^bbox/);
+    });
+
+    it('should parse place types and classes', () => {
+      const patterns = parseLocationFilter({ type: 'P.PPLC, T , S.OB*' }).placeTypes;
+
+      expect(patterns).to.have.length(3);
+      expect(patterns[0].test('P.PPLC')).to.be.true;
+      expect(patterns[0].test('P.PPLA')).to.be.false;
+      expect(patterns[1].test('T.MT')).to.be.true;
+      expect(patterns[1].test('TX.MT')).to.be.false;
+      expect(patterns[2].test('s.obs')).to.be.true;
+      expect(patterns[2].test('S.SCH')).to.be.false;
+      expect(parseLocationFilter({ type: 'P.PPLC,no good' }).error).to.match(/^type must/);
+    });
+
+    it('should parse countries by code or name', () => {
+      expect(parseLocationFilter({ country: 'US,DEU,France' }).countries).to.deep.equal(['USA', 'DEU', 'FRA']);
+      expect(parseLocationFilter({ country: 'US,Atlantis' }).error).to.equal('Unrecognized country "Atlantis"');
+    });
+
+    it('should parse continents by code or name', () => {
+      expect(parseLocationFilter({ continent: 'EU, North America,oceania' }).continents).to.deep.equal(['EU', 'NA', 'OC']);
+      expect(parseLocationFilter({ continent: 'Lemuria' }).error).to.equal('Unrecognized continent "Lemuria"');
+    });
+
+    it('should parse a minimum rank', () => {
+      expect(parseLocationFilter({ minrank: '3' }).minRank).to.equal(3);
+      expect(parseLocationFilter({ minrank: 'high' }).error).to.equal('minrank must be an integer');
+    });
+
+    it('should report the first error found', () => {
+      expect(parseLocationFilter({ near: 'here', bbox: 'there' }).error).to.match(/^near/);
+    });
+
+    it('should accept no filters at all', () => {
+      expect(parseLocationFilter({})).to.deep.equal({});
+    });
+  });
+});
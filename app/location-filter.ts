@@ -0,0 +1,179 @@
+import { AtlasLocation } from './atlas-location';
+import {
+  code2ToCode3, code3ToContinent, code3ToName, getCode3ForCountry, getContinentCode, roughDistanceBetweenLocationsInKm
+} from './gazetteer';
+import { escapeRegExp } from './common';
+import { toInt, toNumber } from '@tubular/util';
+
+export interface LocationFilter {
+  near?: { latitude: number, longitude: number };
+  radius?: number; // km
+  bbox?: { south: number, west: number, north: number, east: number };
+  sortByDistance?: boolean;
+  placeTypes?: RegExp[];
+  countries?: string[];
+  continents?: string[];
+  minRank?: number;
+  error?: string;
+}
+
+function parseNumbers(s: string, count: number): number[] {
+  const values = s.split(',').map(value => toNumber(value.trim(), NaN));
+
+  return (values.length === count && values.every(value => !isNaN(value)) ? values : null);
+}
+
+function parseList(s: any): string[] {
+  return s.toString().split(',').map((item: string) => item.trim()).filter((item: string) => item);
+}
+
+// "P.PPLC" matches only that place type, "P.*" or just "P" matches any place type in the P class.
+function placeTypePattern(placeType: string): RegExp {
+  if (!/^[A-Z](\.[A-Z0-9]*\*?)?$|^[A-Z]\.?\*$/i.test(placeType))
+    return null;
+  else if (!placeType.includes('.'))
+    placeType += '.*';
+
+  return new RegExp('^' + placeType.split('*').map(part => escapeRegExp(part)).join('.*') + '$', 'i');
+}
+
+function countryCode3(country: string): string {
+  const code = country.toUpperCase();
+
+  if (code.length === 2 && code2ToCode3[code])
+    return code2ToCode3[code];
+  else if (code.length === 3 && (code3ToName[code] || code3ToContinent[code]))
+    return code;
+  else
+    return getCode3ForCountry(country);
+}
+
+function validLatLong(latitude: number, longitude: number): boolean {
+  return Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+export function parseLocationFilter(params: Record<string, any>): LocationFilter {
+  const filter: LocationFilter = {};
+
+  if (params.near) {
+    const values = parseNumbers(params.near.toString(), 2);
+
+    if (!values || !validLatLong(values[0], values[1]))
+      filter.error = 'near must be given as latitude,longitude';
+    else
+      filter.near = { latitude: values[0], longitude: values[1] };
+  }
+
+  if (params.radius != null) {
+    filter.radius = toNumber(params.radius, NaN);
+
+    if (!filter.near)
+      filter.error = filter.error || 'radius requires a near location';
+    else if (isNaN(filter.radius) || filter.radius <= 0)
+      filter.error = filter.error || 'radius must be a positive number of kilometers';
+  }
+
+  if (params.bbox) {
+    // south,west,north,east. A west bound greater than the east bound describes a box which crosses the antimeridian.
+    const values = parseNumbers(params.bbox.toString(), 4);
+
+    if (!values || !validLatLong(values[0], values[1]) || !validLatLong(values[2], values[3]) || values[0] > values[2])
+      filter.error = filter.error || 'bbox must be given as south,west,north,east';
+    else
+      filter.bbox = { south: values[0], west: values[1], north: values[2], east: values[3] };
+  }
+
+  if (/^distance$/i.test(params.sort ?? '')) {
+    if (filter.near)
+      filter.sortByDistance = true;
+    else
+      filter.error = filter.error || 'Sorting by distance requires a near location';
+  }
+
+  if (params.type) {
+    filter.placeTypes = parseList(params.type).map(placeType => placeTypePattern(placeType));
+
+    if (filter.placeTypes.some(pattern => !pattern))
+      filter.error = filter.error || 'type must be a list of place types or classes, such as P.*,T.PK,S.OBS';
+  }
+
+  if (params.country) {
+    const countries = parseList(params.country);
+
+    filter.countries = countries.map(country => countryCode3(country));
+
+    const unknown = countries.find((_country, index) => !filter.countries[index]);
+
+    if (unknown)
+      filter.error = filter.error || `Unrecognized country "${unknown}"`;
+  }
+
+  if (params.continent) {
+    const continents = parseList(params.continent);
+
+    filter.continents = continents.map(continent => getContinentCode(continent));
+
+    const unknown = continents.find((_continent, index) => !filter.continents[index]);
+
+    if (unknown)
+      filter.error = filter.error || `Unrecognized continent "${unknown}"`;
+  }
+
+  if (params.minrank != null) {
+    filter.minRank = toInt(params.minrank, NaN);
+
+    if (isNaN(filter.minRank))
+      filter.error = filter.error || 'minrank must be an integer';
+  }
+
+  return filter;
+}
+
+function insideBox(location: AtlasLocation, bbox: LocationFilter['bbox']): boolean {
+  if (location.latitude < bbox.south || location.latitude > bbox.north)
+    return false;
+  else if (bbox.west <= bbox.east)
+    return bbox.west <= location.longitude && location.longitude <= bbox.east;
+  else
+    return bbox.west <= location.longitude || location.longitude <= bbox.east;
+}
+
+export function isLocationFilterActive(filter: LocationFilter): boolean {
+  return !!(filter?.near || filter?.bbox || filter?.placeTypes || filter?.countries || filter?.continents ||
+    filter?.minRank != null);
+}
+
+export function applyLocationFilter(locations: AtlasLocation[], filter: LocationFilter): AtlasLocation[] {
+  const near = filter?.near;
+
+  if (!isLocationFilterActive(filter))
+    return locations.slice();
+
+  const results = locations.filter(location => {
+    if (filter.placeTypes && !filter.placeTypes.some(pattern => pattern.test(location.placeType ?? '')))
+      return false;
+    else if (filter.countries && !filter.countries.includes(location.country))
+      return false;
+    else if (filter.continents && !filter.continents.includes(location.continent || code3ToContinent[location.country]))
+      return false;
+    else if (filter.minRank != null && (location.rank || 0) < filter.minRank)
+      return false;
+
+    if ((near || filter.bbox) && (location.latitude == null || location.longitude == null))
+      return false;
+
+    if (near) {
+      location.distance = roughDistanceBetweenLocationsInKm(near.latitude, near.longitude, location.latitude, location.longitude);
+
+      if (filter.radius && location.distance > filter.radius)
+        return false;
+    }
+
+    return !filter.bbox || insideBox(location, filter.bbox);
+  });
+
+  if (filter.sortByDistance)
+    results.sort((a, b) => a.distance - b.distance || a.compareTo(b));
+
+  return results;
+}
@@ -1,19 +1,13 @@
 import { Request, Response, Router } from 'express';
-import auth from 'basic-auth';
 import { existsSync } from 'fs';
 import { join as pathJoin } from 'path';
-import { asyncHandler, getFileContents } from './common';
+import { asyncHandler, checkAdminAuthorization, getFileContents } from './common';
 
 export const router = Router();
 
 router.get('/', asyncHandler(async (req: Request, res: Response) => {
-  const user = auth(req);
-
-  if (!user || !process.env.DB_PWD || user.name !== 'admin' || user.pass !== process.env.DB_PWD) {
-    res.set('WWW-Authenticate', 'Basic realm="skyviewcafe.com"');
-    res.status(401).send('Not authorized');
+  if (!checkAdminAuthorization(req, res))
     return;
-  }
 
   res.set('Content-Type', 'text/plain');
 
@@ -6,6 +6,7 @@ import { asyncHandler, escapeRegExp, getRemoteAddress, notFound, notFoundForEver
 import { getPublicIp } from './public-ip';
 import { requestText } from 'by-request';
 import { processMillis } from '@tubular/util';
+import { hasQuota, recordUsage } from './quota';
 
 export const router = Router();
 
@@ -69,6 +70,13 @@ const ALLOWED_IP_AGE = 7200000; // two hours
 const MAX_AUTHORIZATION_DELAY = 30000; // half minute
 
 router.get('/script/', asyncHandler(async (req: Request, res: Response) => {
+  if (!hasQuota('google-maps')) {
+    res.status(429).send('Google Maps usage quota nearly exhausted');
+    return;
+  }
+
+  recordUsage('google-maps');
+
   const url = `https://maps.googleapis.com/maps/api/js?key=${GOOGLE_API_KEY}&callback=initGoogleMaps`;
   let script = await requestText(url);
 
@@ -97,6 +105,12 @@ router.get('/proxy*', asyncHandler(async (req: Request, res: Response) => {
 
   maintainAuthorizedIps();
 
+  if (!hasQuota('google-maps')) {
+    res.status(429).send('Google Maps usage quota nearly exhausted');
+    return;
+  }
+
+  recordUsage('google-maps');
   url = url.replace(new RegExp(escapeRegExp(fakeApiKey), 'g'), GOOGLE_API_KEY);
 
   const options = parseUrl(url);
@@ -0,0 +1,91 @@
+import { expect } from 'chai';
+import { migrate } from './migrate';
+import { migrations } from './migrations';
+import { SqlitePool } from './sqlite-await-async';
+
+const latestVersion = migrations[migrations.length - 1].version;
+
+describe('migrate', () => {
+  let pool: SqlitePool;
+
+  async function tables(): Promise<string[]> {
+    return (await pool.queryResults<any[]>("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' " +
+      'ORDER BY name')).map(row => row.name);
+  }
+
+  async function columns(table: string): Promise<string[]> {
+    return (await pool.queryResults<any[]>('SELECT name FROM pragma_table_info(?)', [table])).map(row => row.name);
+  }
+
+  async function versions(): Promise<number[]> {
+    return (await pool.queryResults<any[]>('SELECT version FROM schema_version ORDER BY version')).map(row => row.version);
+  }
+
+  beforeEach(() => {
+    pool = new SqlitePool(':memory:', false);
+  });
+
+  afterEach(() => pool.end());
+
+  it('should create the schema from nothing, and remove it again', async () => {
+    await migrate(pool, 'sqlite', 'up', latestVersion, () => {});
+    expect(await tables()).to.include.members(['atlas2', 'atlas_alt_names', 'atlas_log', 'atlas_searches2', 'schema_version',
+                                               'zone_lookup']);
+    expect(await columns('atlas_alt_names')).to.include('lang');
+    expect(await columns('atlas2')).to.include('population');
+    expect(await versions()).to.deep.equal(migrations.map(migration => migration.version));
+
+    await migrate(pool, 'sqlite', 'down', 0, () => {});
+    expect(await tables()).to.deep.equal(['schema_version']);
+    expect(await versions()).to.deep.equal([]);
+  });
+
+  it('should migrate up and down to a given version', async () => {
+    await migrate(pool, 'sqlite', 'up', 1, () => {});
+    expect(await columns('atlas_alt_names')).not.to.include('lang');
+    expect(await versions()).to.deep.equal([1]);
+
+    await migrate(pool, 'sqlite', 'up', latestVersion, () => {});
+    expect(await columns('atlas_alt_names')).to.include('lang');
+
+    await migrate(pool, 'sqlite', 'down', 1, () => {});
+    expect(await columns('atlas_alt_names')).not.to.include('lang');
+    expect(await columns('atlas2')).not.to.include('population');
+    expect(await versions()).to.deep.equal([1]);
+  });
+
+  it('should record a baseline without running migrations', async () => {
+    await migrate(pool, 'sqlite', 'baseline', 1, () => {});
+    expect(await tables()).to.deep.equal(['schema_version']);
+    expect(await versions()).to.deep.equal([1]);
+  });
+
+  it('should report status', async () => {
+    const lines: string[] = [];
+
+    await migrate(pool, 'sqlite', 'up', 1, () => {});
+    await migrate(pool, 'sqlite', 'status', -1, line => lines.push(line));
+    expect(lines[0]).to.match(/^applied {2}1: /);
+    expect(lines[1]).to.match(/^pending {2}2: /);
+    expect(lines[lines.length - 1]).to.equal(`Schema version: 1, latest is ${latestVersion}`);
+  });
+
+  it('should leave the schema as it was when a migration fails part way', async () => {
+    await migrate(pool, 'sqlite', 'up', 1, () => {});
+    // Makes the second statement of migration 2 fail, after the first has added a column.
+    await pool.queryResults('CREATE INDEX atlas_alt_names_lang ON atlas_alt_names (alt_name)');
+
+    let error: any;
+
+    try {
+      await migrate(pool, 'sqlite', 'up', latestVersion, () => {});
+    }
+    catch (err) {
+      error = err;
+    }
+
+    expect(error?.message).to.match(/already exists/);
+    expect(await columns('atlas_alt_names')).not.to.include('lang');
+    expect(await versions()).to.deep.equal([1]);
+  });
+});
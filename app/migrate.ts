@@ -0,0 +1,117 @@
+// Versioned schema migrations for the atlas database, as configured by DB_TYPE (and DB_FILE for SQLite).
+//
+// Usage: npm run migrate -- [status | up [version] | down version | baseline version]
+//
+//   status            Lists migrations, and which have been applied. This is the default.
+//   up [version]      Applies pending migrations, up to and including the given version, or all of them.
+//   down version      Reverts applied migrations, newest first, until the given version is the latest (0 for none).
+//   baseline version  Records migrations up to the given version as applied, without running them, for databases
+//                     which existed before schema versioning.
+//
+// A fresh database is created from nothing with "migrate up".
+//
+// Each migration, along with its schema_version row, runs as one transaction, so that a failed SQLite migration leaves
+// the schema as it was. MySQL commits implicitly after each DDL statement, however, so a MySQL migration which fails
+// part way leaves its earlier statements applied, without being recorded, and has to be tidied up by hand.
+
+import { atlasDb, atlasDbType, atlasPool, useCommandLineDefaults } from './atlas_database';
+import { DbType, SqlConnection, SqlPool } from './atlas-repository';
+import { Migration, migrations } from './migrations';
+import { toInt } from '@tubular/util';
+
+export type MigrateCommand = 'status' | 'up' | 'down' | 'baseline';
+
+const SCHEMA_VERSION_TABLE = {
+  mysql: 'CREATE TABLE IF NOT EXISTS schema_version (version INT UNSIGNED NOT NULL, description VARCHAR(255) NOT NULL, ' +
+    'applied_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP, PRIMARY KEY (version)) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4',
+  sqlite: 'CREATE TABLE IF NOT EXISTS schema_version (version INTEGER PRIMARY KEY, description TEXT NOT NULL, ' +
+    'applied_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP)'
+};
+
+const latestVersion = migrations.length > 0 ? migrations[migrations.length - 1].version : 0;
+
+function parseArgs(args: string[]): { command: MigrateCommand, version: number } {
+  const command = (args[0] || 'status') as MigrateCommand;
+  const version = (args[1] != null ? toInt(args[1], -1) : (command === 'up' ? latestVersion : -1));
+
+  if (!/^(status|up|down|baseline)$/.test(command) || args.length > 2 ||
+      (command !== 'status' && (version < 0 || version > latestVersion)))
+    throw new Error('Usage: migrate [status | up [version] | down version | baseline version]');
+
+  return { command, version };
+}
+
+async function getAppliedVersions(pool: SqlPool, dbType: DbType): Promise<Set<number>> {
+  await pool.queryResults(SCHEMA_VERSION_TABLE[dbType]);
+
+  const results: any[] = (await pool.queryResults('SELECT version FROM schema_version')) || [];
+
+  return new Set(results.map(result => result.version));
+}
+
+async function runMigration(pool: SqlPool, dbType: DbType, migration: Migration, direction: 'up' | 'down',
+                            log: (message: string) => void): Promise<void> {
+  log(`${direction === 'up' ? 'Applying' : 'Reverting'} ${migration.version}: ${migration.description}`);
+
+  await pool.withTransaction(async connection => {
+    for (const sql of migration[direction][dbType])
+      await connection.queryResults(sql);
+
+    if (direction === 'up')
+      await recordVersion(migration, connection);
+    else
+      await connection.queryResults('DELETE FROM schema_version WHERE version = ?', [migration.version]);
+  });
+}
+
+async function recordVersion(migration: Migration, executor: SqlConnection | SqlPool): Promise<void> {
+  await executor.queryResults('INSERT INTO schema_version (version, description) VALUES (?, ?)',
+    [migration.version, migration.description]);
+}
+
+export async function migrate(pool: SqlPool, dbType: DbType, command: MigrateCommand, version: number,
+                              log: (message: string) => void = console.log): Promise<void> {
+  const applied = await getAppliedVersions(pool, dbType);
+
+  if (command === 'status') {
+    migrations.forEach(migration => log(`${applied.has(migration.version) ? 'applied' : 'pending'}  ` +
+      `${migration.version}: ${migration.description}`));
+  }
+  else if (command === 'up') {
+    for (const migration of migrations.filter(m => m.version <= version && !applied.has(m.version)))
+      await runMigration(pool, dbType, migration, 'up', log);
+  }
+  else if (command === 'down') {
+    for (const migration of migrations.filter(m => m.version > version && applied.has(m.version)).reverse())
+      await runMigration(pool, dbType, migration, 'down', log);
+  }
+  else {
+    for (const migration of migrations.filter(m => m.version <= version && !applied.has(m.version)))
+      await recordVersion(migration, pool);
+  }
+
+  const current = Math.max(0, ...Array.from(await getAppliedVersions(pool, dbType)));
+
+  log(`Schema version: ${current}${current < latestVersion ? `, latest is ${latestVersion}` : ''}`);
+}
+
+if (require.main === module) {
+  (async (): Promise<void> => {
+    let status = 0;
+
+    useCommandLineDefaults();
+
+    try {
+      const { command, version } = parseArgs(process.argv.slice(2));
+
+      await migrate(atlasPool, atlasDbType, command, version);
+    }
+    catch (err) {
+      console.error(err.message ?? err);
+      status = 1;
+    }
+
+    await atlasDb.end().catch(() => {});
+    process.exit(status);
+  })();
+}
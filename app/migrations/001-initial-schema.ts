@@ -0,0 +1,140 @@
+import { Migration } from './migration';
+
+// The atlas tables as they were before schema versioning. "IF NOT EXISTS" makes this harmless for databases which already
+// have them, though those are better brought under versioning with "migrate baseline".
+export const initialSchema: Migration = {
+  version: 1,
+  description: 'Initial atlas schema',
+  up: {
+    mysql: [
+      `CREATE TABLE IF NOT EXISTS atlas2 (
+        item_no INT UNSIGNED NOT NULL AUTO_INCREMENT,
+        key_name VARCHAR(100) NOT NULL,
+        variant VARCHAR(100) NOT NULL DEFAULT '',
+        name VARCHAR(100) NOT NULL,
+        admin2 VARCHAR(100) NOT NULL DEFAULT '',
+        admin1 VARCHAR(100) NOT NULL DEFAULT '',
+        country VARCHAR(20) NOT NULL DEFAULT '',
+        latitude DOUBLE NOT NULL,
+        longitude DOUBLE NOT NULL,
+        elevation DOUBLE NOT NULL DEFAULT 0,
+        time_zone VARCHAR(50),
+        postal_code VARCHAR(20) NOT NULL DEFAULT '',
+        \`rank\` TINYINT NOT NULL DEFAULT 0,
+        feature_type VARCHAR(10),
+        sound VARCHAR(100),
+        source SMALLINT NOT NULL DEFAULT 0,
+        geonames_id INT UNSIGNED,
+        time_stamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (item_no),
+        KEY atlas2_key_name (key_name),
+        KEY atlas2_variant (variant),
+        KEY atlas2_postal_code (postal_code),
+        KEY atlas2_sound (sound),
+        KEY atlas2_geonames_id (geonames_id),
+        KEY atlas2_latitude_longitude (latitude, longitude)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+      `CREATE TABLE IF NOT EXISTS atlas_alt_names (
+        alt_key_name VARCHAR(100) NOT NULL,
+        alt_name VARCHAR(100) NOT NULL,
+        atlas_key_name VARCHAR(100) NOT NULL DEFAULT '',
+        specific_item2 INT UNSIGNED NOT NULL DEFAULT 0,
+        misspelling CHAR(1) NOT NULL DEFAULT 'N',
+        KEY atlas_alt_names_alt_key_name (alt_key_name),
+        KEY atlas_alt_names_atlas_key_name (atlas_key_name),
+        KEY atlas_alt_names_specific_item2 (specific_item2)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+      `CREATE TABLE IF NOT EXISTS atlas_searches2 (
+        search_string VARCHAR(255) NOT NULL,
+        extended BOOLEAN NOT NULL DEFAULT FALSE,
+        hits INT UNSIGNED NOT NULL DEFAULT 0,
+        matches INT UNSIGNED NOT NULL DEFAULT 0,
+        time_stamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (search_string)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+      `CREATE TABLE IF NOT EXISTS zone_lookup (
+        location VARCHAR(255) NOT NULL,
+        zones VARCHAR(255) NOT NULL,
+        PRIMARY KEY (location)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`,
+      `CREATE TABLE IF NOT EXISTS atlas_log (
+        id INT UNSIGNED NOT NULL AUTO_INCREMENT,
+        warning BOOLEAN NOT NULL DEFAULT FALSE,
+        message TEXT NOT NULL,
+        time_stamp TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        PRIMARY KEY (id)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4`
+    ],
+    sqlite: [
+      `CREATE TABLE IF NOT EXISTS atlas2 (
+        item_no INTEGER PRIMARY KEY AUTOINCREMENT,
+        key_name TEXT NOT NULL,
+        variant TEXT NOT NULL DEFAULT '',
+        name TEXT NOT NULL,
+        admin2 TEXT NOT NULL DEFAULT '',
+        admin1 TEXT NOT NULL DEFAULT '',
+        country TEXT NOT NULL DEFAULT '',
+        latitude REAL NOT NULL,
+        longitude REAL NOT NULL,
+        elevation REAL NOT NULL DEFAULT 0,
+        time_zone TEXT,
+        postal_code TEXT NOT NULL DEFAULT '',
+        rank INTEGER NOT NULL DEFAULT 0,
+        feature_type TEXT,
+        sound TEXT,
+        source INTEGER NOT NULL DEFAULT 0,
+        geonames_id INTEGER,
+        time_stamp TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )`,
+      'CREATE INDEX IF NOT EXISTS atlas2_key_name ON atlas2 (key_name)',
+      'CREATE INDEX IF NOT EXISTS atlas2_variant ON atlas2 (variant)',
+      'CREATE INDEX IF NOT EXISTS atlas2_postal_code ON atlas2 (postal_code)',
+      'CREATE INDEX IF NOT EXISTS atlas2_sound ON atlas2 (sound)',
+      'CREATE INDEX IF NOT EXISTS atlas2_geonames_id ON atlas2 (geonames_id)',
+      'CREATE INDEX IF NOT EXISTS atlas2_latitude_longitude ON atlas2 (latitude, longitude)',
+      `CREATE TABLE IF NOT EXISTS atlas_alt_names (
+        alt_key_name TEXT NOT NULL,
+        alt_name TEXT NOT NULL,
+        atlas_key_name TEXT NOT NULL DEFAULT '',
+        specific_item2 INTEGER NOT NULL DEFAULT 0,
+        misspelling TEXT NOT NULL DEFAULT 'N'
+      )`,
+      'CREATE INDEX IF NOT EXISTS atlas_alt_names_alt_key_name ON atlas_alt_names (alt_key_name)',
+      'CREATE INDEX IF NOT EXISTS atlas_alt_names_atlas_key_name ON atlas_alt_names (atlas_key_name)',
+      'CREATE INDEX IF NOT EXISTS atlas_alt_names_specific_item2 ON atlas_alt_names (specific_item2)',
+      `CREATE TABLE IF NOT EXISTS atlas_searches2 (
+        search_string TEXT PRIMARY KEY,
+        extended INTEGER NOT NULL DEFAULT 0,
+        hits INTEGER NOT NULL DEFAULT 0,
+        matches INTEGER NOT NULL DEFAULT 0,
+        time_stamp TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )`,
+      `CREATE TABLE IF NOT EXISTS zone_lookup (
+        location TEXT PRIMARY KEY,
+        zones TEXT NOT NULL
+      )`,
+      `CREATE TABLE IF NOT EXISTS atlas_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        warning INTEGER NOT NULL DEFAULT 0,
+        message TEXT NOT NULL,
+        time_stamp TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )`
+    ]
+  },
+  down: {
+    mysql: [
+      'DROP TABLE IF EXISTS atlas_log',
+      'DROP TABLE IF EXISTS zone_lookup',
+      'DROP TABLE IF EXISTS atlas_searches2',
+      'DROP TABLE IF EXISTS atlas_alt_names',
+      'DROP TABLE IF EXISTS atlas2'
+    ],
+    sqlite: [
+      'DROP TABLE IF EXISTS atlas_log',
+      'DROP TABLE IF EXISTS zone_lookup',
+      'DROP TABLE IF EXISTS atlas_searches2',
+      'DROP TABLE IF EXISTS atlas_alt_names',
+      'DROP TABLE IF EXISTS atlas2'
+    ]
+  }
+};
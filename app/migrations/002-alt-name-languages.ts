@@ -0,0 +1,26 @@
+import { Migration } from './migration';
+
+export const altNameLanguages: Migration = {
+  version: 2,
+  description: 'Language tags for alternate names',
+  up: {
+    mysql: [
+      "ALTER TABLE atlas_alt_names ADD COLUMN lang VARCHAR(16) NOT NULL DEFAULT '' AFTER specific_item2",
+      'CREATE INDEX atlas_alt_names_lang ON atlas_alt_names (lang)'
+    ],
+    sqlite: [
+      "ALTER TABLE atlas_alt_names ADD COLUMN lang TEXT NOT NULL DEFAULT ''",
+      'CREATE INDEX atlas_alt_names_lang ON atlas_alt_names (lang)'
+    ]
+  },
+  down: {
+    mysql: [
+      'DROP INDEX atlas_alt_names_lang ON atlas_alt_names',
+      'ALTER TABLE atlas_alt_names DROP COLUMN lang'
+    ],
+    sqlite: [
+      'DROP INDEX atlas_alt_names_lang',
+      'ALTER TABLE atlas_alt_names DROP COLUMN lang'
+    ]
+  }
+};
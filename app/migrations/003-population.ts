@@ -0,0 +1,14 @@
+import { Migration } from './migration';
+
+export const population: Migration = {
+  version: 3,
+  description: 'Population of atlas locations',
+  up: {
+    mysql: ['ALTER TABLE atlas2 ADD COLUMN population INT UNSIGNED NOT NULL DEFAULT 0 AFTER `rank`'],
+    sqlite: ['ALTER TABLE atlas2 ADD COLUMN population INTEGER NOT NULL DEFAULT 0']
+  },
+  down: {
+    mysql: ['ALTER TABLE atlas2 DROP COLUMN population'],
+    sqlite: ['ALTER TABLE atlas2 DROP COLUMN population']
+  }
+};
@@ -0,0 +1,13 @@
+import { Migration } from './migration';
+import { initialSchema } from './001-initial-schema';
+import { altNameLanguages } from './002-alt-name-languages';
+import { population } from './003-population';
+
+export { Migration, MigrationSql } from './migration';
+
+// New migrations go at the end, numbered one higher than the last.
+export const migrations: Migration[] = [
+  initialSchema,
+  altNameLanguages,
+  population
+];
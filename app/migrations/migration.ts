@@ -0,0 +1,11 @@
+import { DbType } from '../atlas-repository';
+
+// Statements are run one at a time, in order, so each must be a single SQL statement.
+export type MigrationSql = Record<DbType, string[]>;
+
+export interface Migration {
+  version: number;
+  description: string;
+  up: MigrationSql;
+  down: MigrationSql;
+}
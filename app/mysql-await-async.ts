@@ -2,6 +2,7 @@ import mysql, {
   FieldInfo, MysqlError, PoolConnection as _PoolConnection, QueryOptions, Pool as _Pool, PoolConfig } from 'mysql';
 // eslint-disable-next-line node/no-deprecated-api
 import { parse as parseUrl } from 'url';
+import { ConnectionMonitor, PoolStats, ReplicaStats } from './connection-monitor';
 
 export interface FullQueryResults {
   err: MysqlError | null;
@@ -12,17 +13,30 @@ export interface FullQueryResults {
 export class Pool {
   private _pool: _Pool;
   private dbName: string;
+  private monitor: ConnectionMonitor;
 
-  constructor(config: PoolConfig | string, private consoleLogErrors = true) {
+  readonly host: string;
+
+  // Connections obtained through getConnection() and held for more than leakWarningTime milliseconds (if not 0)
+  // produce console warnings.
+  constructor(config: PoolConfig | string, private consoleLogErrors = true, leakWarningTime = 0) {
     this._pool = mysql.createPool(config);
 
-    if (typeof config === 'string')
+    if (typeof config === 'string') {
       this.dbName = parseUrl(config).path;
-    else
+      this.host = parseUrl(config).host;
+    }
+    else {
       this.dbName = config.database;
+      this.host = (config.host ?? 'localhost') + (config.port ? ':' + config.port : '');
+    }
+
+    this.monitor = new ConnectionMonitor(this.dbName, leakWarningTime);
   }
 
   getConnection(): Promise<PoolConnection> {
+    const callSite = this.monitor.getCallSite();
+
     return new Promise<PoolConnection>((resolve, reject) => {
       this._pool.getConnection((err, connection) => {
         if (err) {
@@ -30,7 +44,41 @@ export class Pool {
           reject(err);
         }
         else
-          resolve(new PoolConnection(connection, this));
+          resolve(new PoolConnection(connection, this, this.monitor.acquire(callSite)));
+      });
+    });
+  }
+
+  setLeakWarningTime(millis: number): void {
+    this.monitor.leakWarningTime = millis;
+  }
+
+  // The mysql package has no public API for pool usage, so this relies on its internals. Acquired connections include
+  // those briefly taken by query() and queryResults().
+  getStats(): PoolStats {
+    const pool = this._pool as any;
+    const total = pool._allConnections?.length ?? 0;
+    const idle = pool._freeConnections?.length ?? 0;
+
+    return {
+      connectionLimit: pool.config?.connectionLimit ?? 0,
+      total,
+      acquired: total - idle,
+      idle,
+      waiting: pool._connectionQueue?.length ?? 0,
+      leakWarnings: this.monitor.leakWarnings
+    };
+  }
+
+  end(): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      this._pool.end(err => {
+        if (err) {
+          this.logError(err);
+          reject(err);
+        }
+        else
+          resolve();
       });
     });
   }
@@ -64,12 +112,12 @@ export class Pool {
     });
   }
 
-  queryResults(sqlStringOrOptions: string | QueryOptions, values?: any): Promise<any> {
-    return new Promise<any>((resolve, reject) => {
+  queryResults<T = any>(sqlStringOrOptions: string | QueryOptions, values?: any): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
       const args = typeof sqlStringOrOptions === 'string' ?
         [sqlStringOrOptions, values] : [sqlStringOrOptions];
 
-      (this._pool.query as any)(...args, (err: MysqlError, results: any) => {
+      (this._pool.query as any)(...args, (err: MysqlError, results: T) => {
         if (err) {
           this.logError(err);
           reject(err);
@@ -80,6 +128,29 @@ export class Pool {
     });
   }
 
+  // Runs fn within a transaction on a connection of its own, committing if fn succeeds, rolling back if it fails,
+  // and releasing the connection either way. fn must not release the connection itself.
+  async withTransaction<T>(fn: (connection: PoolConnection) => Promise<T>): Promise<T> {
+    const connection = await this.getConnection();
+
+    try {
+      await connection.beginTransaction();
+
+      const result = await fn(connection);
+
+      await connection.commit();
+
+      return result;
+    }
+    catch (err) {
+      await connection.rollback().catch(() => {});
+      throw err;
+    }
+    finally {
+      connection.release();
+    }
+  }
+
   logError(err: MysqlError): void {
     if (err && this.consoleLogErrors) {
       const name = this.dbName ? ` "${this.dbName}"` : '';
@@ -98,8 +169,91 @@ export class Pool {
   }
 }
 
+// Sends reads made through getReadConnection() and queryReadResults() to the replica pools in turn, and everything else
+// to the primary pool. A replica which fails to supply a connection is skipped for retryTime milliseconds, and when no
+// replica is available (or there are none) reads go to the primary too.
+export class ReplicatedPool {
+  private nextReplica = 0;
+  private unavailableUntil: number[];
+
+  constructor(private primary: Pool, private replicas: Pool[] = [], private retryTime = 30000,
+              private consoleLogErrors = true) {
+    this.unavailableUntil = replicas.map(() => 0);
+  }
+
+  getConnection(): Promise<PoolConnection> {
+    return this.primary.getConnection();
+  }
+
+  async getReadConnection(): Promise<PoolConnection> {
+    const count = this.replicas.length;
+    const first = this.nextReplica;
+
+    for (let i = 0; i < count; ++i) {
+      const index = (first + i) % count;
+
+      if (this.unavailableUntil[index] > Date.now())
+        continue;
+
+      this.nextReplica = (index + 1) % count;
+
+      try {
+        return await this.replicas[index].getConnection();
+      }
+      catch {
+        this.unavailableUntil[index] = Date.now() + this.retryTime;
+
+        if (this.consoleLogErrors)
+          console.warn(`Database replica ${this.replicas[index].host} unavailable, skipping it for ${this.retryTime} ms`);
+      }
+    }
+
+    return this.primary.getConnection();
+  }
+
+  queryResults<T = any>(sqlStringOrOptions: string | QueryOptions, values?: any): Promise<T> {
+    return this.primary.queryResults<T>(sqlStringOrOptions, values);
+  }
+
+  async queryReadResults<T = any>(sqlStringOrOptions: string | QueryOptions, values?: any): Promise<T> {
+    const connection = await this.getReadConnection();
+
+    try {
+      return await connection.queryResults<T>(sqlStringOrOptions, values);
+    }
+    finally {
+      connection.release();
+    }
+  }
+
+  withTransaction<T>(fn: (connection: PoolConnection) => Promise<T>): Promise<T> {
+    return this.primary.withTransaction(fn);
+  }
+
+  setLeakWarningTime(millis: number): void {
+    [this.primary, ...this.replicas].forEach(pool => pool.setLeakWarningTime(millis));
+  }
+
+  getStats(): PoolStats {
+    const now = Date.now();
+
+    return {
+      ...this.primary.getStats(),
+      replicas: this.replicas.map((replica, index): ReplicaStats => ({
+        host: replica.host,
+        available: this.unavailableUntil[index] <= now,
+        ...replica.getStats()
+      }))
+    };
+  }
+
+  async end(): Promise<void> {
+    await Promise.all([this.primary, ...this.replicas].map(pool => pool.end()));
+  }
+}
+
 export class PoolConnection {
-  constructor(private connection: _PoolConnection, private parent?: Pool) { }
+  constructor(private connection: _PoolConnection, private parent?: Pool, private onRelease?: () => void) { }
 
   query(sqlStringOrOptions: string | QueryOptions, values?: any): Promise<FullQueryResults> {
     return new Promise<FullQueryResults>(resolve => {
@@ -113,12 +267,12 @@ export class PoolConnection {
     });
   }
 
-  queryResults(sqlStringOrOptions: string | QueryOptions, values?: any): Promise<any> {
-    return new Promise<any>((resolve, reject) => {
+  queryResults<T = any>(sqlStringOrOptions: string | QueryOptions, values?: any): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
       const args = typeof sqlStringOrOptions === 'string' ?
         [sqlStringOrOptions, values] : [sqlStringOrOptions];
 
-      (this.connection.query as any)(...args, (err: MysqlError, results: any) => {
+      (this.connection.query as any)(...args, (err: MysqlError, results: T) => {
         if (err) {
           this.logError(err);
           reject(err);
@@ -129,10 +283,36 @@ export class PoolConnection {
     });
   }
 
+  beginTransaction(): Promise<void> {
+    return this.transactionStep(callback => this.connection.beginTransaction(callback));
+  }
+
+  commit(): Promise<void> {
+    return this.transactionStep(callback => this.connection.commit(callback));
+  }
+
+  rollback(): Promise<void> {
+    return this.transactionStep(callback => this.connection.rollback(callback));
+  }
+
   release(): void {
+    this.onRelease?.();
     this.connection.release();
   }
 
+  private transactionStep(step: (callback: (err: MysqlError) => void) => void): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      step(err => {
+        if (err) {
+          this.logError(err);
+          reject(err);
+        }
+        else
+          resolve();
+      });
+    });
+  }
+
   private logError(err: MysqlError): void {
     if (err && this.parent)
       this.parent.logError(err);
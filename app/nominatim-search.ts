@@ -0,0 +1,186 @@
+import {
+  closeMatchForCity, closeMatchForState, code2ToCode3, code3ToContinent, containsMatchingLocation, getFlagCode, LocationMap,
+  makeLocationKey, processPlaceNames, standardizeShortCountyName
+} from './gazetteer';
+import { formatVariablePrecision, SOURCE_NOMINATIM_UPDATE, timedPromise } from './common';
+import { AtlasLocation } from './atlas-location';
+import { RemoteSource, RemoteSourceMetrics } from './remote-sources';
+import { geoNamesRank } from './geo-names-search';
+import { getTimeZone } from './timezones';
+import { processMillis, toInt, toNumber } from '@tubular/util';
+import { requestJson } from 'by-request';
+
+export interface NominatimMetrics extends RemoteSourceMetrics {
+  retrievalTime: number;
+  rawCount: number;
+  matchedCount: number;
+}
+
+const NOMINATIM_URL = (process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org').replace(/\/+$/, '');
+const MAX_TIME_NOMINATIM = 20; // seconds
+const MAX_RESULTS_NOMINATIM = 50;
+// Nominatim's usage policy asks for an honest User-Agent identifying the application.
+const USER_AGENT = 'svc-api (https://github.com/kshetline/svc-api)';
+
+// OpenStreetMap class/type pairs, as "class.type", and the GeoNames-style place types they correspond to.
+const osmPlaceTypes: Record<string, string> = {
+  'place.city': 'P.PPL',
+  'place.town': 'P.PPL',
+  'place.village': 'P.PPL',
+  'place.hamlet': 'P.PPL',
+  'place.isolated_dwelling': 'P.PPL',
+  'place.suburb': 'P.PPLX',
+  'place.quarter': 'P.PPLX',
+  'place.neighbourhood': 'P.PPLX',
+  'place.island': 'T.ISL',
+  'place.islet': 'T.ISL',
+  'place.country': 'A.ADM0',
+  'place.state': 'A.ADM1',
+  'place.province': 'A.ADM1',
+  'place.county': 'A.ADM2',
+  'natural.peak': 'T.PK',
+  'natural.volcano': 'T.PK',
+  'natural.cape': 'T.CAPE',
+  'natural.island': 'T.ISL',
+  'water.lake': 'H.LK',
+  'leisure.park': 'L.PRK',
+  'leisure.nature_reserve': 'L.PRK',
+  'boundary.national_park': 'L.PRK',
+  'landuse.military': 'L.MILB',
+  'military.base': 'L.MILB',
+  'man_made.observatory': 'S.OBS'
+};
+
+// Administrative boundaries are typed by what kind of address component they represent.
+const osmAddressTypes: Record<string, string> = {
+  country: 'A.ADM0',
+  state: 'A.ADM1',
+  province: 'A.ADM1',
+  county: 'A.ADM2',
+  city: 'P.PPL',
+  town: 'P.PPL',
+  village: 'P.PPL',
+  hamlet: 'P.PPL'
+};
+
+export const nominatimSource: RemoteSource<NominatimMetrics> = {
+  name: 'nominatim',
+  title: 'Nominatim',
+  sourceId: SOURCE_NOMINATIM_UPDATE,
+  // The public OpenStreetMap server has a strict usage policy, so unless a server of our own has been
+  // configured, Nominatim is only searched when specifically requested.
+  optional: !process.env.NOMINATIM_URL,
+  timeLimit: MAX_TIME_NOMINATIM,
+  search: (parsed, metrics, noTrace) => nominatimSearch(parsed.targetCity, parsed.targetState, metrics, noTrace),
+  summarize: metrics => [`Nominatim raw matches: ${metrics.rawCount}, filtered matches: ${metrics.matchedCount}, \
+retrieval time: ${formatVariablePrecision(metrics.retrievalTime / 1000)}s.`]
+};
+
+export async function nominatimSearch(targetCity: string, targetState: string, metrics: NominatimMetrics, noTrace: boolean): Promise<LocationMap> {
+  return timedPromise(nominatimSearchAux(targetCity, targetState, metrics, noTrace), MAX_TIME_NOMINATIM * 1000, 'Nominatim search timed out');
+}
+
+function getPlaceType(place: any): string {
+  const osmClass = place.category ?? place.class;
+
+  if (osmClass === 'boundary' && place.type === 'administrative')
+    return osmAddressTypes[place.addresstype];
+  else
+    return osmPlaceTypes[osmClass + '.' + place.type];
+}
+
+// Name details are keyed like "name:de" for names in particular languages, or like "alt_name" for other names.
+function addNominatimAlternates(location: AtlasLocation, nameDetails: Record<string, string>): void {
+  Object.keys(nameDetails ?? {}).forEach(key => {
+    const $ = /^(?:name:([-a-z_]+)|(?:alt|old|official|short)_name)$/i.exec(key);
+
+    if ($)
+      nameDetails[key].split(';').forEach(name => location.addAlternateName(name, $[1]));
+  });
+}
+
+async function nominatimSearchAux(targetCity: string, targetState: string, metrics: NominatimMetrics, noTrace: boolean): Promise<LocationMap> {
+  const startTime = processMillis();
+  const keyedPlaces = new LocationMap();
+
+  metrics = metrics || {} as NominatimMetrics;
+  metrics.matchedCount = 0;
+
+  const url = `${NOMINATIM_URL}/search?format=jsonv2&addressdetails=1&extratags=1&namedetails=1&accept-language=en` +
+    `&limit=${MAX_RESULTS_NOMINATIM}&q=${encodeURIComponent(targetCity + (targetState ? ', ' + targetState : ''))}`;
+  const options = { headers: { 'User-Agent': USER_AGENT } };
+  let places: any[];
+
+  try {
+    places = await requestJson(url, options);
+  }
+  catch (err) {
+    throw new Error('Nominatim error: ' + err);
+  }
+
+  if (!Array.isArray(places))
+    places = [];
+
+  metrics.rawCount = places.length;
+
+  for (const place of places) {
+    const address = place.address || {};
+    let placeType = getPlaceType(place);
+    const city: string = place.name;
+    let county: string = address.county;
+    const state: string = address.state || address.province || address.region;
+    let country: string = (address.country_code || '').toUpperCase();
+
+    if (!placeType || !city)
+      continue;
+    else if (placeType === 'P.PPL' && place.extratags?.capital === 'yes')
+      placeType = 'P.PPLC';
+
+    if (country && code2ToCode3[country])
+      country = code2ToCode3[country];
+    else if (!country && placeType === 'A.ADM0')
+      country = city;
+
+    if (country === 'USA')
+      county = standardizeShortCountyName(county);
+
+    const names = processPlaceNames(city, county, state || '', country, code3ToContinent[country], false, noTrace);
+
+    if (!names)
+      continue;
+
+    if ((closeMatchForCity(targetCity, names.city) || closeMatchForCity(targetCity, names.variant)) &&
+         closeMatchForState(targetState, names.state, names.country)) {
+      const location = new AtlasLocation();
+      const population = toInt(place.extratags?.population);
+      const rank = geoNamesRank(placeType, population);
+
+      location.city = names.city;
+      location.county = names.county;
+      location.state = names.state;
+      location.country = names.country;
+      location.longCountry = names.longCountry;
+      location.continent = names.continent;
+      location.flagCode = getFlagCode(names.country, names.state);
+      location.rank = rank;
+      location.population = (population > 0 ? population : undefined);
+      location.placeType = placeType;
+      location.latitude = toNumber(place.lat);
+      location.longitude = toNumber(place.lon);
+      location.variant = names.variant;
+      location.source = SOURCE_NOMINATIM_UPDATE;
+      location.matchType = 'NAME_SEARCH';
+      addNominatimAlternates(location, place.namedetails);
+
+      if (!containsMatchingLocation(keyedPlaces, location)) {
+        location.zone = getTimeZone(location);
+        keyedPlaces.set(makeLocationKey(location.city, location.state, location.country, keyedPlaces), location);
+        ++metrics.matchedCount;
+      }
+    }
+  }
+
+  metrics.retrievalTime = processMillis() - startTime;
+
+  return keyedPlaces;
+}
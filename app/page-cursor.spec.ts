@@ -0,0 +1,29 @@
+import { expect } from 'chai';
+import { decodePageCursor, encodePageCursor } from './page-cursor';
+
+describe('page-cursor', () => {
+  it('should decode what it encodes', () => {
+    const cursor = { s: 'SPRINGFIELD', o: 75, l: 25 };
+
+    expect(decodePageCursor(encodePageCursor(cursor), 500)).to.deep.equal(cursor);
+    expect(decodePageCursor(encodePageCursor({ s: 'MÜNCHEN, DE', o: 0, l: 1 }), 500))
+      .to.deep.equal({ s: 'MÜNCHEN, DE', o: 0, l: 1 });
+  });
+
+  it('should produce URL-safe tokens', () => {
+    expect(encodePageCursor({ s: '???>>>~~~', o: 1, l: 1 })).to.match(/^[-_0-9A-Za-z]+$/);
+  });
+
+  it('should cap the limit', () => {
+    expect(decodePageCursor(encodePageCursor({ s: 'X', o: 10, l: 1000 }), 500).l).to.equal(500);
+  });
+
+  it('should reject invalid tokens', () => {
+    expect(decodePageCursor('', 500)).to.be.null;
+    expect(decodePageCursor('not a cursor', 500)).to.be.null;
+    expect(decodePageCursor(Buffer.from('{"s":"X","o":-1,"l":5}').toString('base64url'), 500)).to.be.null;
+    expect(decodePageCursor(Buffer.from('{"s":"X","o":0,"l":0}').toString('base64url'), 500)).to.be.null;
+    expect(decodePageCursor(Buffer.from('{"o":0,"l":5}').toString('base64url'), 500)).to.be.null;
+    expect(decodePageCursor(Buffer.from('null').toString('base64url'), 500)).to.be.null;
+  });
+});
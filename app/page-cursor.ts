@@ -0,0 +1,23 @@
+// Tokens for fetching the next page of a search, opaque to clients.
+export interface PageCursor {
+  s: string; // normalized search
+  o: number; // offset
+  l: number; // limit
+}
+
+export function encodePageCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+// Returns null for a token which isn't a valid cursor. The limit is capped at maxLimit.
+export function decodePageCursor(token: string, maxLimit: number): PageCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8')) as PageCursor;
+
+    if (typeof cursor?.s === 'string' && cursor.o >= 0 && cursor.l > 0)
+      return { s: cursor.s, o: Math.floor(cursor.o), l: Math.min(Math.floor(cursor.l), maxLimit) };
+  }
+  catch {}
+
+  return null;
+}
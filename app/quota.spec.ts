@@ -0,0 +1,34 @@
+import { expect } from 'chai';
+import { checkQuota, getQuotaUsage, hasQuota, QuotaExceededError, quotaAvailable, QuotaProvider, recordUsage } from './quota';
+
+function usage(provider: QuotaProvider): { used: number, limit: number, refused: number } {
+  const { hour, refused } = getQuotaUsage().find(u => u.provider === provider);
+
+  return { used: hour.used, limit: hour.limit, refused };
+}
+
+describe('quota', () => {
+  it('should count usage, without limiting providers which have no budget', () => {
+    const before = usage('google-maps');
+
+    recordUsage('google-maps', 5);
+    expect(usage('google-maps').used).to.equal(before.used + 5);
+    expect(usage('google-maps').limit).to.equal(0);
+    expect(hasQuota('google-maps', 1000000)).to.be.true;
+  });
+
+  it('should refuse calls near the end of a budget, counting only refusals made by hasQuota', () => {
+    const { used, limit, refused } = usage('geonames');
+    const room = Math.floor(limit * 0.95) - used;
+
+    expect(quotaAvailable('geonames', room)).to.be.true;
+    expect(quotaAvailable('geonames', room + 1)).to.be.false;
+    expect(usage('geonames').refused).to.equal(refused);
+
+    recordUsage('geonames', room);
+    expect(hasQuota('geonames')).to.be.false;
+    expect(usage('geonames').refused).to.equal(refused + 1);
+    expect(() => checkQuota('geonames', 'GeoNames')).to.throw(QuotaExceededError, 'GeoNames usage quota nearly exhausted');
+    expect(usage('geonames').refused).to.equal(refused + 2);
+  });
+});
@@ -0,0 +1,115 @@
+import { toInt, toNumber } from '@tubular/util';
+
+export type QuotaProvider = 'geonames' | 'google-timezone' | 'google-maps';
+
+export interface QuotaWindowUsage {
+  used: number;
+  limit: number; // 0 for no limit
+  resets: string;
+}
+
+export interface QuotaUsage {
+  provider: QuotaProvider;
+  hour: QuotaWindowUsage;
+  day: QuotaWindowUsage;
+  refused: number;
+}
+
+interface QuotaWindow {
+  length: number; // milliseconds
+  limit: number;
+  start: number;
+  used: number;
+}
+
+interface ProviderQuota {
+  hour: QuotaWindow;
+  day: QuotaWindow;
+  refused: number;
+}
+
+export class QuotaExceededError extends Error {}
+
+const HOUR = 3600000;
+const DAY = 86400000;
+// Calls are refused once usage reaches this fraction of a budget, leaving some slack for calls already underway,
+// and for anything else using the same account.
+const QUOTA_THRESHOLD = Math.min(Math.max(toNumber(process.env.QUOTA_THRESHOLD, 0.95), 0), 1);
+
+function envName(provider: QuotaProvider): string {
+  return provider.toUpperCase().replace(/-/g, '_');
+}
+
+function createWindow(provider: QuotaProvider, length: number, defaultLimit: number): QuotaWindow {
+  const limit = toInt(process.env[`${envName(provider)}_${length === HOUR ? 'HOURLY' : 'DAILY'}_QUOTA`], defaultLimit);
+
+  return { length, limit, start: 0, used: 0 };
+}
+
+// The GeoNames defaults are the limits for free accounts. Google usage is counted, but only limited if so configured.
+const quotas: Record<QuotaProvider, ProviderQuota> = {
+  geonames: { hour: createWindow('geonames', HOUR, 1000), day: createWindow('geonames', DAY, 10000), refused: 0 },
+  'google-timezone': { hour: createWindow('google-timezone', HOUR, 0), day: createWindow('google-timezone', DAY, 0), refused: 0 },
+  'google-maps': { hour: createWindow('google-maps', HOUR, 0), day: createWindow('google-maps', DAY, 0), refused: 0 }
+};
+
+// Windows are aligned to UTC clock hours and days, which is how providers tend to reset their own counts.
+function currentWindow(window: QuotaWindow): QuotaWindow {
+  const start = Math.floor(Date.now() / window.length) * window.length;
+
+  if (window.start !== start) {
+    window.start = start;
+    window.used = 0;
+  }
+
+  return window;
+}
+
+function windowHasRoom(window: QuotaWindow, calls: number): boolean {
+  currentWindow(window);
+
+  return window.limit <= 0 || window.used + calls <= window.limit * QUOTA_THRESHOLD;
+}
+
+export function quotaAvailable(provider: QuotaProvider, calls = 1): boolean {
+  const quota = quotas[provider];
+
+  return windowHasRoom(quota.hour, calls) && windowHasRoom(quota.day, calls);
+}
+
+// Like quotaAvailable(), but for deciding whether to refuse a call, counting the refusal if so.
+export function hasQuota(provider: QuotaProvider, calls = 1): boolean {
+  if (quotaAvailable(provider, calls))
+    return true;
+
+  ++quotas[provider].refused;
+
+  return false;
+}
+
+export function recordUsage(provider: QuotaProvider, calls = 1): void {
+  const quota = quotas[provider];
+
+  currentWindow(quota.hour).used += calls;
+  currentWindow(quota.day).used += calls;
+}
+
+export function checkQuota(provider: QuotaProvider, description: string): void {
+  if (!hasQuota(provider))
+    throw new QuotaExceededError(`${description} usage quota nearly exhausted`);
+}
+
+function windowUsage(window: QuotaWindow): QuotaWindowUsage {
+  currentWindow(window);
+
+  return { used: window.used, limit: window.limit, resets: new Date(window.start + window.length).toISOString() };
+}
+
+export function getQuotaUsage(): QuotaUsage[] {
+  return (Object.keys(quotas) as QuotaProvider[]).map(provider => ({
+    provider,
+    hour: windowUsage(quotas[provider].hour),
+    day: windowUsage(quotas[provider].day),
+    refused: quotas[provider].refused
+  }));
+}
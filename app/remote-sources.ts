@@ -0,0 +1,169 @@
+import { LocationMap, ParsedSearchString, simplifyAnyScript } from './gazetteer';
+import { ExpiringCache, timedPromise } from './common';
+import { CircuitBreaker, CircuitOpenError, retryWithBackoff } from './circuit-breaker';
+import { svcApiConsole } from './svc-api-logger';
+import { checkQuota, QuotaExceededError, QuotaProvider } from './quota';
+import { geoNamesSource } from './geo-names-search';
+import { gettySource } from './getty-search';
+import { nominatimSource } from './nominatim-search';
+import { processMillis, toInt } from '@tubular/util';
+
+export interface RemoteSourceMetrics {
+  cacheHit?: boolean;
+  retries?: number;
+}
+
+export interface RemoteSource<M extends RemoteSourceMetrics = any> {
+  name: string; // As used by the "remote" query parameter.
+  title: string; // As used in info and warning messages.
+  sourceId: number;
+  primary?: boolean;
+  postalCodes?: boolean;
+  optional?: boolean; // Optional sources are only searched when requested by name.
+  quota?: QuotaProvider;
+  timeLimit?: number; // seconds, for a search including any retries
+  search(parsed: ParsedSearchString, metrics: M, noTrace: boolean): Promise<LocationMap>;
+  summarize?(metrics: M): string[];
+}
+
+export interface RemoteSourceResults<M extends RemoteSourceMetrics = any> {
+  source: RemoteSource<M>;
+  matches?: LocationMap;
+  metrics: M;
+  error?: string;
+  skipped?: boolean; // True when the source wasn't searched at all, because it has been failing or is over quota.
+}
+
+export interface RemoteSearchResults {
+  sources: RemoteSourceResults[];
+  noErrors: boolean;
+  matches: number;
+}
+
+interface CachedResults {
+  matches: LocationMap;
+  metrics: RemoteSourceMetrics;
+}
+
+const REMOTE_CACHE_SIZE = toInt(process.env.REMOTE_CACHE_SIZE, 500); // entries
+const REMOTE_CACHE_TTL = toInt(process.env.REMOTE_CACHE_TTL, 3600); // seconds
+const REMOTE_RETRIES = toInt(process.env.REMOTE_RETRIES, 2);
+const REMOTE_RETRY_DELAY = toInt(process.env.REMOTE_RETRY_DELAY, 500); // milliseconds, doubled for each retry
+const REMOTE_FAILURE_THRESHOLD = toInt(process.env.REMOTE_FAILURE_THRESHOLD, 5);
+const REMOTE_CIRCUIT_RESET_TIME = toInt(process.env.REMOTE_CIRCUIT_RESET_TIME, 60); // seconds
+
+const remoteSources: RemoteSource[] = [];
+const circuitBreakers = new Map<string, CircuitBreaker>();
+const remoteCache = new ExpiringCache<CachedResults>(REMOTE_CACHE_SIZE, REMOTE_CACHE_TTL * 1000);
+
+export function registerRemoteSource(source: RemoteSource): void {
+  const name = source.name.toLowerCase();
+
+  if (/^(skip|normal|extend|forced|only)$/.test(name) || !/^[a-z][-a-z0-9]*$/.test(name))
+    throw new Error(`Invalid remote source name "${source.name}"`);
+  else if (getRemoteSource(name))
+    throw new Error(`Remote source "${name}" is already registered`);
+
+  source.name = name;
+  remoteSources.push(source);
+  circuitBreakers.set(name, new CircuitBreaker(source.title, REMOTE_FAILURE_THRESHOLD, REMOTE_CIRCUIT_RESET_TIME * 1000));
+}
+
+export function getRemoteSource(name: string): RemoteSource {
+  name = (name ?? '').toLowerCase();
+
+  return remoteSources.find(source => source.name === name);
+}
+
+export function getRemoteSources(): RemoteSource[] {
+  return remoteSources.slice();
+}
+
+export function getDefaultRemoteSources(): RemoteSource[] {
+  return remoteSources.filter(source => !source.optional);
+}
+
+export function getRemoteSourceResults(results: RemoteSearchResults, name: string): RemoteSourceResults {
+  return results?.sources.find(sourceResults => sourceResults.source.name === name);
+}
+
+function cacheKey(source: RemoteSource, parsed: ParsedSearchString): string {
+  return [source.name, parsed.postalCode || '', simplifyAnyScript(parsed.targetCity), simplifyAnyScript(parsed.targetState)].join('|');
+}
+
+// Locations get modified as they're merged with other matches, so cached locations are never handed out directly.
+function copyLocations(locations: LocationMap): LocationMap {
+  const copy = new LocationMap();
+
+  locations.keys.forEach(key => copy.set(key, locations.get(key).clone()));
+
+  return copy;
+}
+
+async function searchRemoteSource(source: RemoteSource, parsed: ParsedSearchString, metrics: RemoteSourceMetrics,
+                                  noTrace: boolean): Promise<LocationMap> {
+  const key = cacheKey(source, parsed);
+  const cached = remoteCache.get(key);
+
+  if (cached) {
+    Object.assign(metrics, cached.metrics, { cacheHit: true });
+
+    return copyLocations(cached.matches);
+  }
+
+  metrics.cacheHit = false;
+  metrics.retries = 0;
+
+  if (source.quota)
+    checkQuota(source.quota, source.title);
+
+  // Retries have to fit within the same time limit as a single search, so that a failing source can't hold up results
+  // any longer than a slow one.
+  const timeLimit = (source.timeLimit ?? Infinity) * 1000;
+  const deadline = processMillis() + timeLimit;
+  const search = (): Promise<LocationMap> =>
+    retryWithBackoff(() => source.search(parsed, metrics, noTrace), REMOTE_RETRIES, REMOTE_RETRY_DELAY, (err, wait) => {
+      ++metrics.retries;
+      svcApiConsole.warn(`${source.title} error, retrying in ${wait}ms: ${err.message ?? err}`);
+    }, deadline);
+  const matches = await circuitBreakers.get(source.name).run(() =>
+    isFinite(timeLimit) ? timedPromise(search(), timeLimit, `${source.title} search timed out`) : search());
+
+  remoteCache.set(key, { matches: copyLocations(matches), metrics: { ...metrics } });
+
+  return matches;
+}
+
+export async function remoteSourcesSearch(parsed: ParsedSearchString, sources: RemoteSource[], noTrace: boolean): Promise<RemoteSearchResults> {
+  const results: RemoteSearchResults = { sources: [], noErrors: true, matches: 0 };
+
+  sources = sources.filter(source => !parsed.postalCode || source.postalCodes);
+
+  const locationsOrErrors = await Promise.all(sources.map(source => {
+    const sourceResults: RemoteSourceResults = { source, metrics: {} };
+
+    results.sources.push(sourceResults);
+
+    return searchRemoteSource(source, parsed, sourceResults.metrics, noTrace).catch(err => err);
+  }));
+
+  locationsOrErrors.forEach((locationsOrError, index) => {
+    const sourceResults = results.sources[index];
+
+    if (locationsOrError instanceof Error) {
+      sourceResults.error = locationsOrError.message;
+      sourceResults.skipped = (locationsOrError instanceof CircuitOpenError || locationsOrError instanceof QuotaExceededError);
+      results.noErrors = false;
+    }
+    else {
+      sourceResults.matches = locationsOrError;
+      results.matches += locationsOrError.size;
+    }
+  });
+
+  return results;
+}
+
+registerRemoteSource(geoNamesSource);
+registerRemoteSource(gettySource);
+registerRemoteSource(nominatimSource);
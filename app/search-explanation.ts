@@ -0,0 +1,99 @@
+import { AtlasLocation } from './atlas-location';
+
+export type CandidateOutcome = 'kept' | 'eliminated' | 'beyond-limit' | 'filtered';
+
+export interface CandidateExplanation {
+  displayName: string;
+  source: string;
+  sourceId: number;
+  matchType: string;
+  rank: number;
+  outcome: CandidateOutcome;
+  rule?: string;
+  reason?: string;
+  favoring?: string;
+  favoringSource?: string;
+  notes?: string[];
+}
+
+export class SearchExplanation {
+  sources: Record<string, AtlasLocation[]> = {};
+  private candidates = new Map<AtlasLocation, CandidateExplanation>();
+
+  addSource(source: string, locations: AtlasLocation[], droppedRule?: string, droppedReason?: string): void {
+    this.sources[source] = locations.map(location => location.clone());
+
+    locations.forEach(location => {
+      const candidate: CandidateExplanation = {
+        displayName: location.displayName,
+        source,
+        sourceId: location.source,
+        matchType: location.matchType,
+        rank: location.rank,
+        outcome: 'kept'
+      };
+
+      if (droppedRule) {
+        candidate.outcome = 'eliminated';
+        candidate.rule = droppedRule;
+        candidate.reason = droppedReason;
+      }
+
+      this.candidates.set(location, candidate);
+    });
+  }
+
+  eliminate(location: AtlasLocation, favored: AtlasLocation, rule: string, reason: string): void {
+    const candidate = this.candidates.get(location);
+
+    if (candidate) {
+      candidate.outcome = 'eliminated';
+      candidate.rule = rule;
+      candidate.reason = reason;
+      candidate.favoring = favored.displayName;
+      candidate.favoringSource = this.candidates.get(favored)?.source;
+    }
+  }
+
+  setOutcome(location: AtlasLocation, outcome: CandidateOutcome, reason?: string): void {
+    const candidate = this.candidates.get(location);
+
+    if (candidate) {
+      candidate.outcome = outcome;
+      candidate.reason = reason;
+    }
+  }
+
+  note(location: AtlasLocation, note: string): void {
+    const candidate = this.candidates.get(location);
+
+    if (candidate)
+      (candidate.notes = candidate.notes ?? []).push(note);
+  }
+
+  toJSON(): any {
+    return {
+      sources: this.sources,
+      candidates: Array.from(this.candidates.values())
+    };
+  }
+
+  toPlainText(): string[] {
+    const text: string[] = [];
+
+    Object.keys(this.sources).forEach(source =>
+      text.push(`explain source ${source}: ${this.sources[source].length}`));
+
+    this.candidates.forEach(candidate => {
+      text.push(`explain ${candidate.source}/${candidate.matchType ?? '?'}: ${candidate.displayName}` +
+        ` (source: ${candidate.sourceId}, rank: ${candidate.rank}) - ${candidate.outcome}` +
+        (candidate.rule ? ` [${candidate.rule}]` : '') +
+        (candidate.reason ? ` ${candidate.reason}` : '') +
+        (candidate.favoring ? `, favoring ${candidate.favoring}` +
+          (candidate.favoringSource ? ` from ${candidate.favoringSource}` : '') : '') +
+        (candidate.notes ? `; ${candidate.notes.join('; ')}` : ''));
+    });
+
+    return text;
+  }
+}
@@ -1,5 +1,6 @@
 import { AtlasLocation } from './atlas-location';
 import { formatVariablePrecision } from './common';
+import { SearchExplanation } from './search-explanation';
 
 export class SearchResult {
   originalSearch: string;
@@ -9,7 +10,11 @@ export class SearchResult {
   warning: string;
   info: string;
   limitReached: boolean;
+  offset: number;
+  total: number;
+  nextPage: string;
   matches: AtlasLocation[];
+  explanation: SearchExplanation;
 
   constructor(originalSearch?: string, normalizedSearch?: string) {
     this.originalSearch = originalSearch;
@@ -63,8 +68,17 @@ export class SearchResult {
 
       text.push(`count: ${this.count}` + (this.limitReached ? ' (limit reached)' : ''));
 
+      if (this.total != null)
+        text.push(`total: ${this.total}` + (this.offset ? `, offset: ${this.offset}` : ''));
+
+      if (this.nextPage)
+        text.push(`nextPage: ${this.nextPage}`);
+
       if (this.matches)
         this.matches.forEach(match => text.push(match.toString()));
+
+      if (this.explanation)
+        text.push(...this.explanation.toPlainText());
     }
 
     text.push('');
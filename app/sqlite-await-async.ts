@@ -0,0 +1,230 @@
+import Database from 'better-sqlite3';
+import { ConnectionMonitor, PoolStats } from './connection-monitor';
+
+// A stand-in for the MySQL Pool in mysql-await-async, with just enough MySQL compatibility (array values for
+// "IN (?)", SOUNDEX() and CHAR_LENGTH(), MySQL-style results for INSERT/UPDATE/DELETE) for the same SQL to work
+// with both. better-sqlite3 is synchronous, so there's only ever a single underlying connection. While a transaction
+// is open on it, all other queries wait, so that they don't become part of the transaction.
+export class SqlitePool {
+  private db: Database.Database;
+  private lastTransaction = Promise.resolve();
+  private openTransaction: Promise<void> = null;
+  private monitor: ConnectionMonitor;
+  private transactionsWaiting = 0;
+  private queriesWaiting = 0;
+
+  constructor(private fileName: string, private consoleLogErrors = true, leakWarningTime = 0) {
+    this.monitor = new ConnectionMonitor(fileName, leakWarningTime);
+    this.db = new Database(fileName);
+    this.db.pragma('journal_mode = WAL');
+    this.db.function('SOUNDEX', { deterministic: true }, (s: any) => s == null ? null : soundex(s.toString()));
+    this.db.function('CHAR_LENGTH', { deterministic: true }, (s: any) => s == null ? null : Array.from(s.toString()).length);
+  }
+
+  getConnection(): Promise<SqliteConnection> {
+    return Promise.resolve(new SqliteConnection(this, this.monitor.acquire(this.monitor.getCallSite())));
+  }
+
+  // With a single database file, there are no replicas to read from.
+  getReadConnection(): Promise<SqliteConnection> {
+    return this.getConnection();
+  }
+
+  queryReadResults<T = any>(sql: string, values?: any[]): Promise<T> {
+    return this.queryResults<T>(sql, values);
+  }
+
+  setLeakWarningTime(millis: number): void {
+    this.monitor.leakWarningTime = millis;
+  }
+
+  // Acquired connections all share the one real connection, so it's idle only when none are held. Transactions waiting
+  // for an earlier one to finish, and queries waiting for a transaction to finish, count as waiting.
+  getStats(): PoolStats {
+    const acquired = this.monitor.acquired;
+
+    return {
+      connectionLimit: 1,
+      total: this.db.open ? 1 : 0,
+      acquired,
+      idle: this.db.open && acquired === 0 ? 1 : 0,
+      waiting: this.transactionsWaiting + this.queriesWaiting,
+      leakWarnings: this.monitor.leakWarnings
+    };
+  }
+
+  end(): Promise<void> {
+    this.db.close();
+
+    return Promise.resolve();
+  }
+
+  async queryResults<T = any>(sql: string, values?: any[]): Promise<T> {
+    if (this.openTransaction) {
+      ++this.queriesWaiting;
+
+      while (this.openTransaction)
+        await this.openTransaction;
+
+      --this.queriesWaiting;
+    }
+
+    return this.queryInTransaction<T>(sql, values);
+  }
+
+  // For the connection of the open transaction only. Anything else uses queryResults().
+  queryInTransaction<T = any>(sql: string, values?: any[]): T {
+    try {
+      const [expandedSql, params] = expandValues(sql, values ?? []);
+      const statement = this.db.prepare(expandedSql);
+
+      if (statement.reader)
+        return statement.all(...params) as any;
+
+      const info = statement.run(...params);
+
+      // SQLite doesn't distinguish rows matched by an UPDATE from rows actually changed, so changedRows only means the
+      // same as it does for MySQL when the UPDATE leaves out rows which already hold the new values.
+      return { affectedRows: info.changes, changedRows: info.changes, insertId: Number(info.lastInsertRowid) } as any;
+    }
+    catch (err) {
+      this.logError(err);
+      throw err;
+    }
+  }
+
+  // With only one connection, transactions can't overlap, so each waits for the one before it to finish.
+  withTransaction<T>(fn: (connection: SqliteConnection) => Promise<T>): Promise<T> {
+    ++this.transactionsWaiting;
+
+    const result = this.lastTransaction.then(async () => {
+      --this.transactionsWaiting;
+
+      let endTransaction: () => void;
+      const connection = new SqliteConnection(this, this.monitor.acquire(this.monitor.getCallSite()), true);
+
+      this.openTransaction = new Promise<void>(resolve => { endTransaction = resolve; });
+
+      try {
+        await connection.beginTransaction();
+
+        const result = await fn(connection);
+
+        await connection.commit();
+
+        return result;
+      }
+      catch (err) {
+        await connection.rollback().catch(() => {});
+        throw err;
+      }
+      finally {
+        connection.release();
+        this.openTransaction = null;
+        endTransaction();
+      }
+    });
+
+    this.lastTransaction = result.then(() => {}, () => {});
+
+    return result;
+  }
+
+  logError(err: any): void {
+    if (err && this.consoleLogErrors)
+      console.error(`Database "${this.fileName}" error: ${err.code ?? err.message ?? err}`);
+  }
+}
+
+export class SqliteConnection {
+  constructor(private parent: SqlitePool, private onRelease?: () => void, private inTransaction = false) { }
+
+  async queryResults<T = any>(sql: string, values?: any[]): Promise<T> {
+    if (this.inTransaction)
+      return this.parent.queryInTransaction<T>(sql, values);
+    else
+      return this.parent.queryResults<T>(sql, values);
+  }
+
+  async beginTransaction(): Promise<void> {
+    await this.queryResults('BEGIN');
+  }
+
+  async commit(): Promise<void> {
+    await this.queryResults('COMMIT');
+  }
+
+  async rollback(): Promise<void> {
+    await this.queryResults('ROLLBACK');
+  }
+
+  release(): void {
+    this.onRelease?.();
+  }
+}
+
+function toSqliteValue(value: any): any {
+  if (value === undefined)
+    return null;
+  else if (typeof value === 'boolean')
+    return value ? 1 : 0;
+  else if (value instanceof Date)
+    return value.toISOString().replace('T', ' ').replace(/\.\d+Z$/, '');
+  else
+    return value;
+}
+
+// Array values are expanded into comma-separated lists of placeholders, as the mysql package does for "IN (?)".
+function expandValues(sql: string, values: any[]): [string, any[]] {
+  const params: any[] = [];
+  let index = 0;
+
+  sql = sql.replace(/\?/g, () => {
+    const value = values[index++];
+
+    if (!Array.isArray(value)) {
+      params.push(toSqliteValue(value));
+      return '?';
+    }
+
+    params.push(...value.map(toSqliteValue));
+
+    return value.length > 0 ? value.map(() => '?').join(', ') : 'NULL';
+  });
+
+  return [sql, params];
+}
+
+const soundexCodes: Record<string, string> = {
+  B: '1', F: '1', P: '1', V: '1',
+  C: '2', G: '2', J: '2', K: '2', Q: '2', S: '2', X: '2', Z: '2',
+  D: '3', T: '3',
+  L: '4',
+  M: '5', N: '5',
+  R: '6'
+};
+
+// Like MySQL's SOUNDEX(), results aren't truncated to four characters, but are padded out to at least four.
+function soundex(s: string): string {
+  const letters = s.toUpperCase().replace(/[^A-Z]/g, '');
+
+  if (!letters)
+    return '';
+
+  let result = letters.charAt(0);
+  let lastCode = soundexCodes[result] ?? '';
+
+  for (let i = 1; i < letters.length; ++i) {
+    const ch = letters.charAt(i);
+    const code = soundexCodes[ch] ?? '';
+
+    if (code && code !== lastCode)
+      result += code;
+
+    // H and W don't separate letters with the same code, but vowels do.
+    if (ch !== 'H' && ch !== 'W')
+      lastCode = code;
+  }
+
+  return result.padEnd(4, '0');
+}
@@ -1,11 +1,11 @@
-import { pool } from './atlas_database';
+import { atlasDb } from './atlas_database';
 import { AtlasLocation } from './atlas-location';
 import { simplify } from './gazetteer';
 
 const zoneLookup: Record<string, string[]> = {};
 
 export async function initTimezones(): Promise<void> {
-  const results: any[] = await pool.queryResults('SELECT location, zones FROM zone_lookup WHERE 1');
+  const results = await atlasDb.reader.getZoneLookups();
 
   results.forEach(result => {
     zoneLookup[result.location] = result.zones.split(',');
@@ -2,9 +2,10 @@ import { Request, Response, Router } from 'express';
 import { processMillis, toBoolean, toNumber } from '@tubular/util';
 import { asyncHandler } from './common';
 import { requestJson } from 'by-request';
-import { pool } from './atlas_database';
-import { PoolConnection } from './mysql-await-async';
+import { atlasDb } from './atlas_database';
+import { AtlasConnection } from './atlas-repository';
 import { Timezone } from '@tubular/time';
+import { hasQuota, recordUsage } from './quota';
 
 export const router = Router();
 
@@ -19,50 +20,61 @@ export interface TzInfo {
   timeZoneName?: string;
 }
 
+// Finds the time zone of the atlas entries nearest to the given location, searching ever-wider areas until some are found,
+// provided that all of those entries agree on both time zone and country.
+export async function findAtlasTimezone(connection: AtlasConnection, lat: number, lon: number): Promise<{ timeZoneId: string, country: string }> {
+  for (const span of [0.05, 0.1, 0.25, 0.5]) {
+    const results = await connection.findAtlasInArea(lat - span, lat + span, lon - span, lon + span);
+    let timeZoneId: string;
+    let country: string;
+
+    for (const result of results) {
+      if (result.time_zone) {
+        if (!timeZoneId)
+          timeZoneId = result.time_zone;
+        else if (timeZoneId !== result.time_zone)
+          return null;
+
+        if (!country)
+          country = result.country;
+        else if (country !== result.country)
+          return null;
+      }
+    }
+
+    if (timeZoneId)
+      return { timeZoneId, country };
+  }
+
+  return null;
+}
+
 export async function getTimezoneForLocation(lat: number, lon: number, time = 0): Promise<TzInfo> {
   if (time === 0)
     time = Math.floor(processMillis() / 1000);
 
-  let connection: PoolConnection;
+  let connection: AtlasConnection;
 
   try {
-    connection = await pool.getConnection();
-
-    zoneLoop:
-    for (const span of [0.05, 0.1, 0.25, 0.5]) {
-      const query = 'SELECT time_zone, country FROM atlas2 WHERE latitude >= ? AND latitude <= ? AND longitude >= ? AND longitude <= ?';
-      const results = (await connection.queryResults(query, [lat - span, lat + span, lon - span, lon + span])) || [];
-      let timeZoneId: string;
-      let country: string;
-
-      for (const result of results) {
-        if (result.time_zone) {
-          if (!timeZoneId)
-            timeZoneId = result.time_zone;
-          else if (timeZoneId !== result.time_zone)
-            break zoneLoop;
-
-          if (!country)
-            country = result.country;
-          else if (country !== result.country)
-            break zoneLoop;
-        }
-      }
+    connection = await atlasDb.getReadConnection();
 
-      if (timeZoneId) {
-        connection.release();
-        const zone = Timezone.getTimezone(timeZoneId);
-
-        return {
-          timeZoneId,
-          country,
-          dstOffset: zone.dstOffset,
-          rawOffset: zone.utcOffset,
-          status: 'OK',
-          fromDb: true
-        };
-      }
+    const found = await findAtlasTimezone(connection, lat, lon);
+
+    if (found) {
+      connection.release();
+      const zone = Timezone.getTimezone(found.timeZoneId);
+
+      return {
+        timeZoneId: found.timeZoneId,
+        country: found.country,
+        dstOffset: zone.dstOffset,
+        rawOffset: zone.utcOffset,
+        status: 'OK',
+        fromDb: true
+      };
     }
+
+    connection.release();
   }
   catch {
     if (connection) {
@@ -73,6 +85,11 @@ export async function getTimezoneForLocation(lat: number, lon: number, time = 0)
     }
   }
 
+  if (!hasQuota('google-timezone'))
+    return { status: 'OVER_QUERY_LIMIT', errorMessage: 'Google time zone usage quota nearly exhausted' };
+
+  recordUsage('google-timezone');
+
   const key = encodeURIComponent(process.env.GOOGLE_API_KEY);
   const url = `https://maps.googleapis.com/maps/api/timezone/json?location=${lat},${lon}&timestamp=${time}&key=${key}`;
   let data: TzInfo;